@@ -0,0 +1,1344 @@
+// Key presses, keymaps and the machines matching and recording them. Nothing
+// here depends on Obsidian or the DOM, so that it can be tested in plain Node.
+
+// region  Type Shims
+export interface CustomCommand {
+  key: string;
+  modifiers: string[];
+}
+
+export type Optional<T> = T | undefined | null;
+
+interface StateMachine<K, T> {
+  // Would love to restrict T to a finite set ( T extends Enum ),
+  // but it's not possible to do that in TypeScript currently
+  advance: (event: K) => T;
+}
+// endregion
+
+// region Fundamental Domain
+export enum PressKind {
+  ModifierOnly,
+  SpecialKey,
+  NormalKey,
+}
+
+// A persisted item read back, possibly repaired, or null when it had to be
+// rejected. Problems explain what was repaired or why it was rejected.
+export interface Validated<T> {
+  value: Optional<T>;
+  problems: string[];
+}
+
+export interface Hashable {
+  asHash(): string;
+  // Another hash the same item also matches, such as its physical key.
+  altHash?(): string;
+}
+
+export class KeyPress implements Hashable {
+  // region static constructors
+  public static ctrl(key: string): KeyPress {
+    return new KeyPress(key, false, false, true, false);
+  }
+
+  public static alt(key: string): KeyPress {
+    return new KeyPress(key, false, true, false, false);
+  }
+
+  public static shift(key: string): KeyPress {
+    return new KeyPress(key, true, false, false, false);
+  }
+
+  public static meta(key: string): KeyPress {
+    return new KeyPress(key, false, false, false, true);
+  }
+
+  public static just(key: string): KeyPress {
+    return new KeyPress(key, false, false, false, false);
+  }
+
+  public static ctrlAlt(key: string): KeyPress {
+    return new KeyPress(key, false, true, true, false);
+  }
+
+  public static fromEvent(event: KeyboardEvent): KeyPress {
+    let key = event.key;
+    const shift = event.shiftKey;
+    const ctrl = event.ctrlKey;
+    const alt = event.altKey;
+    const meta = event.metaKey;
+
+    // Caps Lock should not change which keymap a letter belongs to.
+    if (
+      event.getModifierState &&
+      event.getModifierState('CapsLock') &&
+      /^\p{L}$/u.test(key)
+    ) {
+      key = key === key.toUpperCase() ? key.toLowerCase() : key.toUpperCase();
+    }
+
+    return new KeyPress(key, shift, alt, ctrl, meta, event.code || undefined);
+  }
+
+  public static fromCustom(binding: CustomCommand): KeyPress {
+    const modifiers = binding.modifiers;
+
+    const key = binding.key;
+    const shift = modifiers.includes('Shift');
+    const ctrl = modifiers.includes('Ctrl');
+    const alt = modifiers.includes('Alt');
+    const meta = modifiers.includes('Meta');
+    const mod = modifiers.includes('Mod');
+    return new KeyPress(key, shift, alt, ctrl, meta, undefined, mod);
+  }
+
+  // Vim-like notation: `h`, `<C-b>`, `<A-S-CR>`, `<Space>`, `<Mod-p>`, and
+  // modified keys without brackets such as `C-b`.
+  public static fromNotation(token: string): Optional<KeyPress> {
+    if (!token) {
+      return null;
+    }
+    if (!token.startsWith('<')) {
+      if (/^(?:(?:mod|[cads])-)+\S/i.test(token)) {
+        return KeyPress.fromNotation(`<${token}>`);
+      }
+      return [...token].length === 1 ? KeyPress.just(token) : null;
+    }
+    if (!token.endsWith('>') || token.length < 3) {
+      return null;
+    }
+
+    let name = token.slice(1, -1);
+    let shift = false;
+    let ctrl = false;
+    let alt = false;
+    let meta = false;
+    let mod = false;
+    while (/^mod-./i.test(name)) {
+      mod = true;
+      name = name.slice(4);
+    }
+    while (name.length > 2 && name[1] === '-') {
+      switch (name[0].toUpperCase()) {
+        case 'C':
+          ctrl = true;
+          break;
+        case 'A':
+          alt = true;
+          break;
+        case 'S':
+          shift = true;
+          break;
+        case 'D':
+          meta = true;
+          break;
+        default:
+          return null;
+      }
+      name = name.slice(2);
+    }
+
+    const lowerName = name.toLowerCase();
+    const named =
+      Object.keys(notationNames).find(
+        (key) => notationNames[key].toLowerCase() === lowerName,
+      ) ?? notationAliases[lowerName];
+    // As in Vim, `<C-B>` is the same chord as `<C-b>`; Shift is written `S-`.
+    const chord =
+      (ctrl || alt || meta || mod) && !shift && /^[A-Z]$/.test(name);
+    return new KeyPress(
+      named ?? (chord ? lowerName : name),
+      shift,
+      alt,
+      ctrl,
+      meta,
+      undefined,
+      mod,
+    );
+  }
+
+  public static parse(raw: unknown): Validated<KeyPress> {
+    if (!isObject(raw) || !isNonEmpty(raw.key)) {
+      return { value: null, problems: ['key without a name'] };
+    }
+    const key = raw.key;
+    const problems: string[] = [];
+    const flag = (name: string): boolean => readFlag(raw, name, problems, key);
+    if (raw.code !== undefined && typeof raw.code !== 'string') {
+      problems.push(`ignored the physical key of ${key}`);
+    }
+    const press = new KeyPress(
+      key,
+      flag('shift'),
+      flag('alt'),
+      flag('ctrl'),
+      flag('meta'),
+      typeof raw.code === 'string' ? raw.code : undefined,
+      flag('mod'),
+    );
+    return { value: press, problems };
+  }
+
+  public static of(keyPressLike: KeyPress): KeyPress {
+    return new KeyPress(
+      keyPressLike.key,
+      keyPressLike.shift,
+      keyPressLike.alt,
+      keyPressLike.ctrl,
+      keyPressLike.meta,
+      keyPressLike.code,
+      keyPressLike.mod,
+    );
+  }
+
+  // endregion
+
+  public readonly key: string;
+  public readonly alt: boolean;
+  public readonly ctrl: boolean;
+  public readonly shift: boolean;
+  public readonly meta: boolean;
+  // Physical key, as in `KeyboardEvent.code`, when recorded from an event.
+  public readonly code?: string;
+  // Obsidian's "Mod": Cmd on macOS and Ctrl everywhere else.
+  public readonly mod?: boolean;
+
+  public constructor(
+    key: string,
+    shift: boolean,
+    alt: boolean,
+    ctrl: boolean,
+    meta: boolean,
+    code?: string,
+    mod?: boolean,
+  ) {
+    this.key = key;
+    this.shift = shift;
+    this.alt = alt;
+    this.ctrl = ctrl;
+    this.meta = meta;
+    if (code) {
+      this.code = code;
+    }
+    if (mod) {
+      this.mod = true;
+    }
+  }
+
+  public readonly text = (): string => {
+    return this.modifierText(this.shift) + this.key;
+  };
+  // Shift is left out for characters, which already tell whether it was
+  // held, so that presses agree whichever way the platform reports them.
+  public readonly asHash = (): string => {
+    if (this.key && [...this.key].length === 1) {
+      const key = this.shift ? this.key.toUpperCase() : this.key;
+      return this.modifierText(false) + key;
+    }
+    return this.text();
+  };
+
+  // Hash of the physical key, whatever the layout produces for it.
+  public readonly codeHash = (): string => {
+    const us = this.code ? null : usLayoutKey(this.key);
+    const shift = this.shift || (!!us && us.shift);
+    return this.modifierText(shift) + `[${this.physicalCode()}]`;
+  };
+
+  public readonly altHash = (): string => {
+    return this.codeHash();
+  };
+
+  // Presses without a recorded code are taken to be on the US layout.
+  public readonly physicalCode = (): string => {
+    if (this.code) {
+      return this.code;
+    }
+    const us = usLayoutKey(this.key);
+    return us ? us.code : this.key;
+  };
+
+  // The same physical key named as on the US layout, which is how keymaps
+  // matched by physical key are written down.
+  public readonly onUsLayout = (): KeyPress => {
+    const key = this.code ? usLayoutCharacter(this.code, this.shift) : null;
+    if (!key) {
+      return this;
+    }
+    return new KeyPress(
+      key,
+      false,
+      this.alt,
+      this.ctrl,
+      this.meta,
+      this.code,
+      this.mod,
+    );
+  };
+
+  // Whether Ctrl is held on this platform, through Mod or not.
+  public readonly hasCtrl = (): boolean => {
+    return this.ctrl || (!!this.mod && !platform.isMacOS);
+  };
+
+  // Whether Meta (Cmd) is held on this platform, through Mod or not.
+  public readonly hasMeta = (): boolean => {
+    return this.meta || (!!this.mod && platform.isMacOS);
+  };
+
+  // The same press with this platform's Ctrl or Cmd written as Mod, so that
+  // it also works on the other platforms.
+  public readonly withMod = (): KeyPress => {
+    const platformKey = platform.isMacOS ? this.meta : this.ctrl;
+    if (!platformKey) {
+      return this;
+    }
+    return new KeyPress(
+      this.key,
+      this.shift,
+      this.alt,
+      platform.isMacOS && this.ctrl,
+      !platform.isMacOS && this.meta,
+      this.code,
+      true,
+    );
+  };
+
+  public readonly notation = (): string => {
+    const modifiers =
+      (this.mod ? 'Mod-' : '') +
+      (this.ctrl ? 'C-' : '') +
+      (this.alt ? 'A-' : '') +
+      (this.shift ? 'S-' : '') +
+      (this.meta ? 'D-' : '');
+    const name = notationNames[this.key] ?? this.key;
+    if (!modifiers && name === this.key && [...this.key].length === 1) {
+      return this.key;
+    }
+    return `<${modifiers}${name}>`;
+  };
+
+  // The text this press would have typed, if any.
+  public readonly typedText = (): string => {
+    if (
+      this.hasCtrl() ||
+      this.alt ||
+      this.hasMeta() ||
+      this.key === null ||
+      this.key === undefined
+    ) {
+      return '';
+    }
+    if (this.key === 'Enter') {
+      return '\n';
+    }
+    if (this.key === 'Tab') {
+      return '\t';
+    }
+    return this.key.length === 1 ? this.key : '';
+  };
+
+  public readonly kind = (): PressKind => {
+    if (
+      this.key === null ||
+      this.key === undefined ||
+      ['Alt', 'Control', 'Shift', 'Meta', 'AltGraph'].includes(this.key)
+    ) {
+      return PressKind.ModifierOnly;
+    }
+    if (['Enter', 'Escape', 'Backspace'].includes(this.key)) {
+      return PressKind.SpecialKey;
+    }
+
+    return PressKind.NormalKey;
+  };
+
+  private readonly modifierText = (shift: boolean): string => {
+    const metaRepr = this.hasMeta() ? '⌘ + ' : '';
+    const altRepr = this.alt ? 'Alt + ' : '';
+    const ctrlRepr = this.hasCtrl() ? 'Ctrl + ' : '';
+    const shiftRepr = shift ? '⇧ + ' : '';
+
+    return metaRepr + ctrlRepr + altRepr + shiftRepr;
+  };
+}
+
+export type EditorMode = 'source' | 'live-preview' | 'reading';
+
+// Where a keymap applies. Conditions which are left out always match.
+export interface KeyMapContext {
+  viewType?: string;
+  mode?: EditorMode;
+  // Glob matched against the path of the active file.
+  path?: string;
+  // Tag from the frontmatter of the active file, without the leading #.
+  tag?: string;
+  // Named layer the keymap belongs to, entered by a layer action.
+  layer?: string;
+}
+
+// Whether keys are matched by the character they type or their position.
+export type KeyMatching = 'key' | 'code';
+
+// How a keymap behaves when run, kept flat in the saved data.
+export interface KeyMapOptions {
+  continueOnFailure?: boolean;
+  // Hand a typed count to the commands instead of repeating them.
+  passCount?: boolean;
+  // Keys of repeatable keymaps sharing a prefix can follow one another
+  // without the prefix, like tmux's `bind -r`.
+  repeatable?: boolean;
+  // Left out to follow the setting for all keymaps.
+  matchBy?: KeyMatching;
+}
+
+export type ActionKind = 'command' | 'snippet' | 'file' | 'uri' | 'layer';
+
+export type PaneKind = 'current' | 'new' | 'split-right' | 'split-down';
+
+export interface KeyAction {
+  // Left out for commands, which were the only kind at first.
+  kind?: ActionKind;
+  commandID?: string;
+  // Inserted at the cursor, see `expandSnippet` for the placeholders.
+  text?: string;
+  // Link text of the file to open, possibly with a #heading or #^block.
+  link?: string;
+  pane?: PaneKind;
+  uri?: string;
+  // Layer entered by the action.
+  layer?: string;
+  // Milliseconds to wait before running the action.
+  delay?: number;
+}
+
+export class KeyMap implements Iterable<KeyPress> {
+  // Reads a keymap from saved or imported data, which may be malformed or
+  // written by an older version.
+  public static parse(raw: unknown): Validated<KeyMap> {
+    const problems: string[] = [];
+    const reject = (problem: string): Validated<KeyMap> => ({
+      value: null,
+      problems: [...problems, problem],
+    });
+    if (!isObject(raw)) {
+      return reject('not a keymap');
+    }
+
+    if (!Array.isArray(raw.sequence) || raw.sequence.length === 0) {
+      return reject('no key sequence');
+    }
+    const presses: KeyPress[] = [];
+    for (const rawPress of raw.sequence) {
+      const press = KeyPress.parse(rawPress);
+      problems.push(...press.problems);
+      if (!press.value) {
+        return reject('malformed key sequence');
+      }
+      presses.push(press.value);
+    }
+
+    // Keymaps from before command chains have a single command ID.
+    const actions: unknown =
+      raw.commandID !== undefined
+        ? [{ commandID: raw.commandID }]
+        : raw.actions;
+    if (!Array.isArray(actions) || actions.length === 0) {
+      return reject('no actions');
+    }
+    if (!actions.every(isValidAction)) {
+      return reject('malformed actions');
+    }
+
+    const context: KeyMapContext = {};
+    const conditions = raw.context === undefined ? {} : raw.context;
+    if (!isObject(conditions)) {
+      return reject('malformed context');
+    }
+    const isValidContext = Object.keys(conditions).every((name) => {
+      const value = conditions[name];
+      return (
+        typeof value === 'string' && setContextCondition(context, name, value)
+      );
+    });
+    if (!isValidContext) {
+      return reject('malformed context');
+    }
+
+    let matchBy: Optional<KeyMatching> = null;
+    if (raw.matchBy === 'key' || raw.matchBy === 'code') {
+      matchBy = raw.matchBy;
+    } else if (raw.matchBy !== undefined) {
+      problems.push(`ignored unknown key matching ${String(raw.matchBy)}`);
+    }
+
+    const keymap = new KeyMap(
+      actions.map((action) => ({ ...action })),
+      presses,
+      Object.keys(context).length >= 1 ? context : undefined,
+      {
+        continueOnFailure: readFlag(raw, 'continueOnFailure', problems),
+        passCount: readFlag(raw, 'passCount', problems),
+        repeatable: readFlag(raw, 'repeatable', problems),
+        matchBy,
+      },
+    );
+    return { value: keymap, problems };
+  }
+
+  // Copies a keymap which is known to be valid, see `parse` otherwise.
+  public static of(keyMapLike: KeyMap): KeyMap {
+    const sequence = keyMapLike.sequence || [];
+
+    const presses = sequence.map(KeyPress.of);
+    const actions = (keyMapLike.actions || []).map((action) => ({
+      ...action,
+    }));
+    const context = keyMapLike.context ? { ...keyMapLike.context } : undefined;
+    return new KeyMap(actions, presses, context, keyMapLike);
+  }
+
+  public static forCommand(commandID: string, sequence: KeyPress[]): KeyMap {
+    return new KeyMap([{ commandID }], sequence);
+  }
+
+  public sequence: KeyPress[];
+  // Run in order, usually a single command.
+  public actions: KeyAction[];
+  public context?: KeyMapContext;
+  public continueOnFailure?: boolean;
+  public passCount?: boolean;
+  public repeatable?: boolean;
+  public matchBy?: KeyMatching;
+
+  constructor(
+    actions: KeyAction[],
+    sequence: KeyPress[],
+    context?: KeyMapContext,
+    options: KeyMapOptions = {},
+  ) {
+    this.sequence = sequence;
+    this.actions = actions;
+    if (context && Object.keys(context).length >= 1) {
+      this.context = context;
+    }
+    if (options.continueOnFailure) {
+      this.continueOnFailure = true;
+    }
+    if (options.passCount) {
+      this.passCount = true;
+    }
+    if (options.repeatable) {
+      this.repeatable = true;
+    }
+    if (options.matchBy) {
+      this.matchBy = options.matchBy;
+    }
+  }
+
+  public [Symbol.iterator](): Iterator<KeyPress> {
+    return this.sequence.values();
+  }
+
+  public text = (): string => {
+    return (
+      this.actions.map(actionNotation).join(' + ') +
+      ' = ' +
+      this.sequence.map((press) => press.text()).join(' => ')
+    );
+  };
+}
+
+export interface Continuation {
+  press: KeyPress;
+  // The keymap ending with this press, if any.
+  keymap: Optional<KeyMap>;
+  // Every keymap reachable through this press, including the one above.
+  keymaps: KeyMap[];
+  isPrefix: boolean;
+}
+// endregion
+
+// region Matching of existing keymaps
+interface HashIter extends Iterable<Hashable> {}
+
+export class TrieNode<T> {
+  public children = new Map<string, TrieNode<T>>();
+
+  public value: Optional<T>;
+
+  public child(key: string): Optional<TrieNode<T>> {
+    return this.children.get(key);
+  }
+
+  public childFor(component: Hashable): Optional<TrieNode<T>> {
+    const child = this.child(component.asHash());
+    if (child || !component.altHash) {
+      return child;
+    }
+    return this.child(component.altHash());
+  }
+
+  public addChild(key: string, child: TrieNode<T>): void {
+    this.children.set(key, child);
+  }
+
+  public leaves(): TrieNode<T>[] {
+    if (this.isLeaf()) {
+      return [this];
+    }
+
+    let result: TrieNode<T>[] = [];
+
+    this.children.forEach((child, _) => {
+      result = result.concat(child.leaves());
+    });
+
+    return result;
+  }
+
+  // Values at or below this node. A node can hold a value and still be the
+  // prefix of longer sequences, so this is not limited to the leaves.
+  public leafValues(): T[] {
+    let result: T[] = this.hasValue() ? [this.value] : [];
+
+    this.children.forEach((child, _) => {
+      result = result.concat(child.leafValues());
+    });
+
+    return result;
+  }
+
+  public isLeaf(): boolean {
+    return this.children.size === 0;
+  }
+
+  public hasValue(): boolean {
+    return this.value !== null && this.value !== undefined;
+  }
+
+  public setValue(value: T): void {
+    this.value = value;
+  }
+}
+
+export class Trie<T extends HashIter> {
+  public static from<K extends HashIter>(
+    iter: K[],
+    hashesOf?: (item: K) => string[],
+  ): Trie<K> {
+    const trie = new Trie<K>(hashesOf);
+    trie.addAll(iter);
+    return trie;
+  }
+
+  private readonly root: TrieNode<T>;
+  private readonly hashesOf: (item: T) => string[];
+
+  constructor(hashesOf?: (item: T) => string[]) {
+    this.root = new TrieNode();
+    this.hashesOf = hashesOf || componentHashes;
+  }
+
+  public addAll(iter: T[]): Trie<T> {
+    for (const item of iter) {
+      this.add(item);
+    }
+    return this;
+  }
+
+  public add(composite: T): Trie<T> {
+    // FIXME : Honestly, very sus implementation
+    let lastSeenNode = this.root;
+    for (const key of this.hashesOf(composite)) {
+      const child = lastSeenNode.child(key) || new TrieNode();
+      lastSeenNode.addChild(key, child);
+      lastSeenNode = child;
+    }
+    if (lastSeenNode.hasValue()) {
+      throw new Error('Duplicate keymap');
+    }
+    lastSeenNode.setValue(composite);
+    return this;
+  }
+
+  public bestMatch(sequence: Hashable[]): Optional<TrieNode<T>> {
+    let lastNode = this.root;
+    for (const keyPress of sequence) {
+      const child = lastNode.childFor(keyPress);
+      if (!child) {
+        return null;
+      }
+      lastNode = child;
+    }
+
+    return lastNode;
+  }
+
+  // Values stored strictly before the end of the sequence.
+  public prefixValues(sequence: Hashable[]): T[] {
+    const result: T[] = [];
+    let lastNode = this.root;
+    for (const keyPress of sequence.slice(0, -1)) {
+      lastNode = lastNode.childFor(keyPress);
+      if (!lastNode) {
+        break;
+      }
+      if (lastNode.hasValue()) {
+        result.push(lastNode.value);
+      }
+    }
+    return result;
+  }
+}
+
+enum MatchKind {
+  NoMatch,
+  PartialMatch,
+  AmbiguousMatch,
+  FullMatch,
+}
+
+export enum MatchState {
+  EmptyMatch,
+  StartedMatch,
+  RetainedMatch,
+  ImprovedMatch,
+  // A keymap is complete, but longer ones could still follow.
+  AmbiguousMatch,
+  // A digit of a count was typed within the sequence.
+  CountedMatch,
+  SuccessMatch,
+  // A repeatable keymap ran, keys of its group can still follow.
+  RepeatingMatch,
+  InvalidMatch,
+}
+
+export enum MatchStateKind {
+  Initial,
+  Flow,
+  Terminal,
+}
+
+export class MatchMachine implements StateMachine<KeyPress, MatchState> {
+  private readonly trie: Trie<KeyMap>;
+  private currentState: MatchState;
+  private currentSequence: KeyPress[];
+  private currentMatches: KeyMap[];
+  private currentNode: Optional<TrieNode<KeyMap>>;
+  private currentCount: number;
+  // Every press of the sequence, including the digits of the count.
+  private currentPresses: KeyPress[];
+  // The press which settled an ambiguous sequence without being part of it.
+  private settlingPress: Optional<KeyPress>;
+
+  constructor(trie: Trie<KeyMap>) {
+    this.trie = trie;
+    this.currentState = MatchState.EmptyMatch;
+    this.currentSequence = [];
+    this.currentMatches = [];
+    this.currentNode = null;
+    this.currentCount = 0;
+    this.currentPresses = [];
+    this.settlingPress = null;
+  }
+
+  public advance = (keypress: KeyPress): MatchState => {
+
+
+
+    const macroState = this.stateKind();
+    const wasAlreadySearching = macroState === MatchStateKind.Flow;
+    if (macroState === MatchStateKind.Terminal) {
+      if (this.canRepeat()) {
+        return this.repeat(keypress);
+      }
+      // Reset and try again.
+      this.reset();
+      return this.advance(keypress);
+    }
+    if (keypress.kind() === PressKind.ModifierOnly) {
+      this.currentState = [MatchState.EmptyMatch , MatchState.InvalidMatch , MatchState.SuccessMatch].includes( this.currentState)
+                          ? MatchState.EmptyMatch
+                          : MatchState.RetainedMatch;
+
+      return this.currentState;
+    }
+
+    this.currentPresses.push(keypress);
+    if (wasAlreadySearching && this.isCountDigit(keypress)) {
+      this.currentCount = Math.min(
+        this.currentCount * 10 + parseInt(keypress.key, 10),
+        maxCount,
+      );
+      this.currentState = MatchState.CountedMatch;
+      return this.currentState;
+    }
+
+    const previousNode = this.currentNode;
+    this.currentSequence.push(keypress);
+    const bestMatch = this.trie.bestMatch(this.currentSequence);
+    const matchKind = interpretMatch(bestMatch);
+    this.currentMatches = bestMatch ? bestMatch.leafValues() : [];
+    this.currentNode = bestMatch;
+
+    switch (matchKind) {
+      case MatchKind.NoMatch:
+        if (wasAlreadySearching && previousNode && previousNode.hasValue()) {
+          // Any key which doesn't continue an ambiguous sequence terminates it.
+          this.currentSequence.pop();
+          this.currentPresses.pop();
+          this.currentNode = previousNode;
+          this.currentMatches = [previousNode.value];
+          this.settlingPress = keypress;
+          this.currentState = MatchState.SuccessMatch;
+          break;
+        }
+
+        // An invalid sequence is kept around until the next press,
+        // so that the swallowed keys can still be recovered.
+        if (!wasAlreadySearching) {
+          this.currentSequence = [];
+          this.currentPresses = [];
+        }
+        this.currentState = wasAlreadySearching
+          ? MatchState.InvalidMatch
+          : MatchState.EmptyMatch;
+        break;
+      case MatchKind.PartialMatch:
+        this.currentState = wasAlreadySearching
+          ? MatchState.ImprovedMatch
+          : MatchState.StartedMatch;
+        break;
+      case MatchKind.AmbiguousMatch:
+        this.currentState = MatchState.AmbiguousMatch;
+        break;
+      case MatchKind.FullMatch:
+        this.currentState = wasAlreadySearching
+          ? MatchState.SuccessMatch
+          : // Very sus to reach success state at first try.
+            MatchState.SuccessMatch;
+        break;
+    }
+
+    return this.currentState;
+  };
+
+  public reset = (): void => {
+    this.currentState = MatchState.EmptyMatch;
+    this.currentSequence = [];
+    this.currentMatches = [];
+    this.currentNode = null;
+    this.currentCount = 0;
+    this.currentPresses = [];
+    this.settlingPress = null;
+  };
+
+  // Settles a pending sequence on the keymap it currently spells, if any.
+  public resolve = (): MatchState => {
+    if (
+      this.stateKind() === MatchStateKind.Flow &&
+      this.currentNode &&
+      this.currentNode.hasValue()
+    ) {
+      this.currentMatches = [this.currentNode.value];
+      this.currentState = MatchState.SuccessMatch;
+    }
+    return this.currentState;
+  };
+
+  public allMatches = (): readonly KeyMap[] => {
+    return this.currentMatches;
+  };
+
+  public fullMatch = (): Optional<KeyMap> => {
+    if (this.currentState !== MatchState.SuccessMatch) {
+      return null;
+    }
+
+    // Sanity checking.
+    if (!this.currentNode || !this.currentNode.hasValue()) {
+      writeConsole(
+        'State Machine in FullMatch state, but without a matching keymap. This is definitely a bug.',
+      );
+      return null;
+    }
+
+    return this.currentNode.value;
+  };
+
+  public sequence = (): readonly KeyPress[] => {
+    return this.currentSequence;
+  };
+
+  public swallowed = (): readonly KeyPress[] => {
+    return this.currentPresses;
+  };
+
+  // Like Vim, the press which settled an ambiguous sequence should then be
+  // handled as new input.
+  public settledBy = (): Optional<KeyPress> => {
+    return this.currentState === MatchState.SuccessMatch
+      ? this.settlingPress
+      : null;
+  };
+
+  public canRepeat = (): boolean => {
+    return (
+      [MatchState.SuccessMatch, MatchState.RepeatingMatch].includes(
+        this.currentState,
+      ) &&
+      !!this.currentNode &&
+      this.currentNode.hasValue() &&
+      !!this.currentNode.value.repeatable
+    );
+  };
+
+  // How often the matched keymap should run.
+  public count = (): number => {
+    return Math.max(this.currentCount, 1);
+  };
+
+  public continuations = (): Continuation[] => {
+    if (!this.currentNode || this.stateKind() !== MatchStateKind.Flow) {
+      return [];
+    }
+
+    // The trie is keyed by hashes, so the presses themselves are
+    // recovered from any keymap reachable through the child.
+    const depth = this.currentSequence.length;
+    const result: Continuation[] = [];
+    this.currentNode.children.forEach((child) => {
+      const keymaps = child.leafValues();
+      result.push({
+        press: keymaps[0].sequence[depth],
+        keymap: child.value,
+        keymaps,
+        isPrefix: !child.isLeaf(),
+      });
+    });
+    return result;
+  };
+
+  public stateKind = (): MatchStateKind => {
+    if (this.currentState === MatchState.EmptyMatch) {
+      return MatchStateKind.Initial;
+    }
+
+    const flowStates = [
+      MatchState.StartedMatch,
+      MatchState.RetainedMatch,
+      MatchState.ImprovedMatch,
+      MatchState.AmbiguousMatch,
+      MatchState.CountedMatch,
+    ];
+
+    return flowStates.includes(this.currentState)
+      ? MatchStateKind.Flow
+      : MatchStateKind.Terminal;
+  };
+
+  // Swaps the last key of the sequence which just ran for the new one.
+  private readonly repeat = (keypress: KeyPress): MatchState => {
+    if (keypress.kind() === PressKind.ModifierOnly) {
+      this.currentState = MatchState.RepeatingMatch;
+      return this.currentState;
+    }
+
+    const sequence = [...this.currentSequence.slice(0, -1), keypress];
+    const node = this.trie.bestMatch(sequence);
+    if (!node || !node.hasValue() || !node.value.repeatable) {
+      this.reset();
+      return this.advance(keypress);
+    }
+
+    this.currentSequence = sequence;
+    this.currentPresses = [keypress];
+    this.currentNode = node;
+    this.currentMatches = [node.value];
+    this.currentCount = 0;
+    this.currentState = MatchState.SuccessMatch;
+    return this.currentState;
+  };
+
+  // Digits only count when no keymap continues with them, and a count
+  // cannot start with a zero.
+  private readonly isCountDigit = (keypress: KeyPress): boolean => {
+    return (
+      /^[0-9]$/.test(keypress.key) &&
+      !keypress.hasCtrl() &&
+      !keypress.alt &&
+      !keypress.hasMeta() &&
+      (keypress.key !== '0' || this.currentCount > 0) &&
+      !!this.currentNode &&
+      !this.currentNode.childFor(keypress)
+    );
+  };
+}
+// endregion
+
+// region Recording of new keymaps
+export enum RecordingState {
+  EmptySequence,
+  FirstKey,
+  AddedKeys,
+  WaitingInput,
+  DeletedKey,
+  PendingAddition,
+  PendingDeletion,
+  FinishedMapping,
+}
+
+enum PendingChoice {
+  KeepLiteral,
+  DiscardLiteral,
+  DeletePrevious,
+  Finish,
+  Unknown,
+}
+
+export class RecordingMachine
+  implements StateMachine<KeyPress, RecordingState>
+{
+  private currentState: RecordingState;
+  private readonly currentSequence: KeyPress[];
+
+  constructor(prefix: readonly KeyPress[] = []) {
+    this.currentSequence = [...prefix];
+    this.currentState =
+      prefix.length >= 1
+        ? RecordingState.AddedKeys
+        : RecordingState.EmptySequence;
+  }
+
+  public readonly advance = (keyPress: KeyPress): RecordingState => {
+    const classification = keyPress.kind();
+
+    if (classification === PressKind.ModifierOnly) {
+      return this.currentState;
+    }
+
+    if ( this.currentState === RecordingState.FinishedMapping) {
+      // Explicitly state that it can be re-started without loss.
+      this.currentState = RecordingState.WaitingInput;
+      return this.advance(keyPress);
+    }
+
+    if (
+        this.currentState === RecordingState.PendingAddition ||
+        this.currentState === RecordingState.PendingDeletion
+    ) {
+      const previousLiteral = this.currentSequence.pop();
+      const action = this.interpretAction(keyPress);
+
+      switch (action) {
+        case PendingChoice.KeepLiteral:
+          this.currentSequence.push(previousLiteral);
+          this.currentState = RecordingState.AddedKeys;
+          break;
+        case PendingChoice.DiscardLiteral:
+          this.currentState = RecordingState.WaitingInput;
+          break;
+        case PendingChoice.DeletePrevious:
+          this.currentSequence.pop();
+          this.currentState = RecordingState.DeletedKey;
+          break;
+        case PendingChoice.Finish:
+          this.currentState = RecordingState.FinishedMapping;
+          break;
+        default:
+          this.currentSequence.push(previousLiteral);
+          break;
+      }
+    } else {
+      this.currentSequence.push(keyPress);
+      if (classification === PressKind.SpecialKey) {
+        this.currentState =
+          keyPress.key === 'Enter'
+            ? RecordingState.PendingAddition
+            : RecordingState.PendingDeletion;
+      } else {
+        this.currentState =
+          this.currentSequence.length === 1
+            ? RecordingState.FirstKey
+            : RecordingState.AddedKeys;
+      }
+    }
+
+    return this.currentState;
+  };
+
+  public readonly presses = (): KeyPress[] => {
+    return this.currentSequence;
+  };
+
+  private interpretAction(keypress: KeyPress): PendingChoice {
+    if (keypress.hasCtrl() && keypress.alt && keypress.key === 'Enter') {
+      return PendingChoice.Finish;
+    }
+    if (keypress.key === 'Enter') {
+      return PendingChoice.KeepLiteral;
+    } else if (
+        keypress.key === 'Backspace' &&
+        this.currentState === RecordingState.PendingDeletion
+    ) {
+      return PendingChoice.DeletePrevious;
+    } else if (
+        keypress.key === 'Backspace' &&
+        this.currentState === RecordingState.PendingAddition
+    ) {
+      return PendingChoice.DiscardLiteral;
+    }
+    return PendingChoice.Unknown;
+  }
+}
+// endregion
+
+// region consts and utils
+// Set by the plugin when it loads, as Obsidian knows the platform.
+export const platform = { isMacOS: false };
+export const paneKinds: { [pane: string]: string } = {
+  current: 'In the current pane',
+  new: 'In a new pane',
+  'split-right': 'Split right',
+  'split-down': 'Split down',
+};
+// How an action is written in the text format.
+export const actionNotation = (action: KeyAction): string => {
+  switch (action.kind) {
+    case 'snippet':
+      return JSON.stringify(action.text);
+    case 'file':
+      return action.pane && action.pane !== 'current'
+        ? `[[${action.link}]]:${action.pane}`
+        : `[[${action.link}]]`;
+    case 'uri':
+      return action.uri;
+    case 'layer':
+      return `@${action.layer}`;
+    default:
+      return action.commandID;
+  }
+};
+// Snippets may be empty, but every action needs something to run or open.
+export const isValidAction = (action: unknown): action is KeyAction => {
+  if (
+    !isObject(action) ||
+    (action.delay !== undefined && typeof action.delay !== 'number')
+  ) {
+    return false;
+  }
+  switch (action.kind) {
+    case undefined:
+    case 'command':
+      return isNonEmpty(action.commandID);
+    case 'snippet':
+      return typeof action.text === 'string';
+    case 'file':
+      return (
+        isNonEmpty(action.link) &&
+        (action.pane === undefined ||
+          (typeof action.pane === 'string' && action.pane in paneKinds))
+      );
+    case 'uri':
+      return isNonEmpty(action.uri);
+    case 'layer':
+      return isNonEmpty(action.layer);
+    default:
+      return false;
+  }
+};
+const editorModes: EditorMode[] = ['source', 'live-preview', 'reading'];
+// Notation names of the context conditions, as used in the text format.
+export const contextNames: { [name: string]: keyof KeyMapContext } = {
+  view: 'viewType',
+  mode: 'mode',
+  path: 'path',
+  tag: 'tag',
+  layer: 'layer',
+};
+export const setContextCondition = (
+  context: KeyMapContext,
+  name: string,
+  value: string,
+): boolean => {
+  const key = contextNames[name] || (name as keyof KeyMapContext);
+  if (!Object.values(contextNames).includes(key) || !value) {
+    return false;
+  }
+  if (key === 'mode') {
+    const mode = editorModes.find((editorMode) => editorMode === value);
+    if (!mode) {
+      return false;
+    }
+    context.mode = mode;
+  } else {
+    context[key] = value;
+  }
+  return true;
+};
+const componentHashes = (item: HashIter): string[] => {
+  return [...item].map((component) => component.asHash());
+};
+export const keymapHashes = (
+  keymap: KeyMap,
+  fallback: KeyMatching,
+): string[] => {
+  const matchBy = keymap.matchBy || fallback;
+  return keymap.sequence.map((press) =>
+    matchBy === 'code' ? press.codeHash() : press.asHash(),
+  );
+};
+// Characters of the US layout, without and with Shift, in the same order.
+const usLayout = {
+  plain: "`1234567890-=qwertyuiop[]\\asdfghjkl;'zxcvbnm,./ ",
+  shifted: '~!@#$%^&*()_+QWERTYUIOP{}|ASDFGHJKL:"ZXCVBNM<>? ',
+};
+const usPunctuationCodes: { [character: string]: string } = {
+  '`': 'Backquote',
+  '-': 'Minus',
+  '=': 'Equal',
+  '[': 'BracketLeft',
+  ']': 'BracketRight',
+  '\\': 'Backslash',
+  ';': 'Semicolon',
+  "'": 'Quote',
+  ',': 'Comma',
+  '.': 'Period',
+  '/': 'Slash',
+  ' ': 'Space',
+};
+const usLayoutCode = (plain: string): string => {
+  if (/[a-z]/.test(plain)) {
+    return `Key${plain.toUpperCase()}`;
+  }
+  if (/[0-9]/.test(plain)) {
+    return `Digit${plain}`;
+  }
+  return usPunctuationCodes[plain];
+};
+// The physical key typing a character on the US layout, and whether it
+// takes Shift.
+const usLayoutKey = (
+  key: string,
+): Optional<{ code: string; shift: boolean }> => {
+  if (!key || [...key].length !== 1) {
+    return null;
+  }
+  const plain = usLayout.plain.indexOf(key);
+  if (plain >= 0) {
+    return { code: usLayoutCode(usLayout.plain[plain]), shift: false };
+  }
+  const shifted = usLayout.shifted.indexOf(key);
+  if (shifted >= 0) {
+    return { code: usLayoutCode(usLayout.plain[shifted]), shift: true };
+  }
+  return null;
+};
+const usLayoutCharacter = (code: string, shift: boolean): Optional<string> => {
+  const index = [...usLayout.plain].findIndex(
+    (plain) => usLayoutCode(plain) === code,
+  );
+  if (index < 0) {
+    return null;
+  }
+  return shift ? usLayout.shifted[index] : usLayout.plain[index];
+};
+const interpretMatch = (bestMatch: Optional<TrieNode<KeyMap>>): MatchKind => {
+  if (!bestMatch) {
+    return MatchKind.NoMatch;
+  }
+  if (bestMatch.isLeaf()) {
+    return MatchKind.FullMatch;
+  }
+  if (bestMatch.hasValue()) {
+    return MatchKind.AmbiguousMatch;
+  }
+  return MatchKind.PartialMatch;
+};
+const notationNames: { [key: string]: string } = {
+  ' ': 'Space',
+  '<': 'lt',
+  // Would start a quoted string or a comment in the keymap text format.
+  '"': 'quote',
+  '#': 'hash',
+  Enter: 'CR',
+  Escape: 'Esc',
+  Backspace: 'BS',
+  Delete: 'Del',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+};
+// Other names accepted in the notation, in lower case.
+const notationAliases: { [name: string]: string } = {
+  enter: 'Enter',
+  return: 'Enter',
+  escape: 'Escape',
+  backspace: 'Backspace',
+  delete: 'Delete',
+  tab: 'Tab',
+  home: 'Home',
+  end: 'End',
+  pageup: 'PageUp',
+  pagedown: 'PageDown',
+  insert: 'Insert',
+  bar: '|',
+  bslash: '\\',
+};
+// Keys separated by spaces, such as `C-b h` or `<Space> f f`.
+export const parseSequence = (text: string): Optional<KeyPress[]> => {
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  const presses = tokens.map(KeyPress.fromNotation);
+  if (presses.length === 0 || presses.some((press) => !press)) {
+    return null;
+  }
+  return presses;
+};
+export const sequenceNotation = (sequence: readonly KeyPress[]): string => {
+  return sequence.map((press) => press.notation()).join(' ');
+};
+// Tokens of a line of the keymap text format, none for blank lines and
+// comments, or null if the line cannot be read.
+export const keymapLineTokens = (line: string): Optional<string[]> => {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith('#')) {
+    return [];
+  }
+  // Keys, then commands each optionally preceded by a delay, then options.
+  return trimmed.match(/(?:\[\[[^\]]*\]\]|[^\s"]+|"(?:[^"\\]|\\.)*")+/g);
+};
+const maxCount = 999;
+export const isObject = (
+  value: unknown,
+): value is { [key: string]: unknown } => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+const isNonEmpty = (value: unknown): value is string => {
+  return typeof value === 'string' && value.length >= 1;
+};
+// Reads a saved flag, accepting it written as a string, or reports it.
+const readFlag = (
+  entry: { [key: string]: unknown },
+  name: string,
+  problems: string[],
+  owner?: string,
+): boolean => {
+  const label = owner ? `${name} of ${owner}` : name;
+  const value = entry[name];
+  if (value === undefined || typeof value === 'boolean') {
+    return !!value;
+  }
+  if (value === 'true' || value === 'false') {
+    problems.push(`read ${label} as ${value}`);
+    return value === 'true';
+  }
+  problems.push(`ignored ${label}, which is neither true nor false`);
+  return false;
+};
+export const writeConsole = (message: string): void => {
+  console.debug(` Leader Hotkeys: ${message}`);
+};
+// endregion
@@ -1,10 +1,57 @@
+import {
+  ActionKind,
+  actionNotation,
+  contextNames,
+  Continuation,
+  CustomCommand,
+  EditorMode,
+  Hashable,
+  isObject,
+  isValidAction,
+  KeyAction,
+  KeyMap,
+  KeyMapContext,
+  keymapHashes,
+  keymapLineTokens,
+  KeyMapOptions,
+  KeyMatching,
+  KeyPress,
+  MatchMachine,
+  MatchState,
+  MatchStateKind,
+  Optional,
+  PaneKind,
+  paneKinds,
+  parseSequence,
+  platform,
+  PressKind,
+  RecordingMachine,
+  RecordingState,
+  sequenceNotation,
+  setContextCondition,
+  Trie,
+  TrieNode,
+  Validated,
+  writeConsole,
+} from './core';
 import {
   App,
+  debounce,
+  FuzzySuggestModal,
+  ItemView,
+  MarkdownView,
   Modal,
+  moment,
+  normalizePath,
   Notice,
+  parseFrontMatterTags,
+  Platform,
   Plugin,
   PluginSettingTab,
   Setting,
+  TAbstractFile,
+  TFile,
+  WorkspaceLeaf,
 } from 'obsidian';
 
 // region  Type Shims
@@ -19,436 +66,383 @@ interface CommandMap {
   [key: string]: ObsidianCommand;
 }
 
-interface CustomCommand {
-  key: string;
-  modifiers: string[];
+interface HotkeyManager {
+  customKeys?: { [commandID: string]: CustomCommand[] };
+  getHotkeys: (commandID: string) => Optional<CustomCommand[]>;
+  getDefaultHotkeys: (commandID: string) => Optional<CustomCommand[]>;
 }
 
-type Optional<T> = T | undefined | null;
-
-interface StateMachine<K, T> {
-  // Would love to restrict T to a finite set ( T extends Enum ),
-  // but it's not possible to do that in TypeScript currently
-  advance: (event: K) => T;
-}
+type AppWithCommands = App & {
+  commands: {
+    commands: CommandMap;
+    executeCommandById: (commandID: string) => boolean;
+  };
+  hotkeyManager?: HotkeyManager;
+};
 
 // endregion
 
 // region Fundamental Domain
-enum PressKind {
-  ModifierOnly,
-  SpecialKey,
-  NormalKey,
-}
-
-interface Hashable {
-  asHash(): string;
+interface ActiveContext {
+  viewType: Optional<string>;
+  mode: Optional<EditorMode>;
+  path: Optional<string>;
+  tags: string[];
+  layer: Optional<string>;
 }
 
-class KeyPress implements Hashable {
-  // region static constructors
-  public static ctrl(key: string): KeyPress {
-    return new KeyPress(key, false, false, true, false);
-  }
-
-  public static alt(key: string): KeyPress {
-    return new KeyPress(key, false, true, false, false);
-  }
-
-  public static shift(key: string): KeyPress {
-    return new KeyPress(key, true, false, false, false);
-  }
-
-  public static meta(key: string): KeyPress {
-    return new KeyPress(key, false, false, false, true);
-  }
-
-  public static just(key: string): KeyPress {
-    return new KeyPress(key, false, false, false, false);
-  }
-
-  public static ctrlAlt(key: string): KeyPress {
-    return new KeyPress(key, false, true, true, false);
-  }
-
-  public static fromEvent(event: KeyboardEvent): KeyPress {
-    const key = event.key;
-    const shift = event.shiftKey;
-    const ctrl = event.ctrlKey;
-    const alt = event.altKey;
-    const meta = event.metaKey;
-
-    return new KeyPress(key, shift, alt, ctrl, meta);
-  }
-
-  public static fromCustom(binding: CustomCommand): KeyPress {
-    const modifiers = binding.modifiers;
-
-    const key = binding.key;
-    const shift = modifiers.contains('Shift');
-    const ctrl = modifiers.contains('Ctrl');
-    const alt = modifiers.contains('Alt');
-    const meta = modifiers.contains('Meta');
-    return new KeyPress(key, shift, ctrl, alt, meta);
-  }
-
-  public static of(keyPressLike: KeyPress): KeyPress {
-    return new KeyPress(
-      keyPressLike.key,
-      keyPressLike.shift,
-      keyPressLike.alt,
-      keyPressLike.ctrl,
-      keyPressLike.meta,
-    );
-  }
-
-  // endregion
-
-  public readonly key: string;
-  public readonly alt: boolean;
-  public readonly ctrl: boolean;
-  public readonly shift: boolean;
-  public readonly meta: boolean;
-
-  public constructor(
-    key: string,
-    shift: boolean,
-    alt: boolean,
-    ctrl: boolean,
-    meta: boolean,
-  ) {
-    this.key = key;
-    this.shift = shift;
-    this.alt = alt;
-    this.ctrl = ctrl;
-    this.meta = meta;
-  }
-
-  public readonly text = (): string => {
-    const metaRepr = this.meta ? '⌘ + ' : '';
-    const altRepr = this.alt ? 'Alt + ' : '';
-    const ctrlRepr = this.ctrl ? 'Ctrl + ' : '';
-    const shiftRepr = this.shift ? '⇧ + ' : '';
-
-    return metaRepr + ctrlRepr + altRepr + shiftRepr + this.key;
-  };
-  public readonly kbd = (): HTMLElement => {
-    const result = document.createElement('kbd');
-    result.addClass('setting-hotkey');
-    result.setText(this.text());
-    result.style.padding = '2px';
-    result.style.margin = '5px';
-    result.style.border = '1px solid rgba(255,255,255,.25)';
-    result.style.borderRadius = '3px';
-    return result;
-  };
-  public readonly asHash = (): string => {
-    return this.text();
-  };
-
-  public readonly kind = (): PressKind => {
-    if (
-      this.key === null ||
-      this.key === undefined ||
-      ['Alt', 'Control', 'Shift', 'Meta', 'AltGraph'].includes(this.key)
-    ) {
-      return PressKind.ModifierOnly;
+class PrefixTimeout {
+  public static parse(raw: unknown): Validated<PrefixTimeout> {
+    const presses =
+      isObject(raw) && Array.isArray(raw.sequence)
+        ? raw.sequence.map(KeyPress.parse)
+        : [];
+    if (presses.length === 0 || presses.some((press) => !press.value)) {
+      return { value: null, problems: ['malformed prefix'] };
     }
-    if (['Enter', 'Escape', 'Backspace'].includes(this.key)) {
-      return PressKind.SpecialKey;
+    if (!isObject(raw) || typeof raw.timeout !== 'number' || raw.timeout < 0) {
+      return { value: null, problems: ['malformed timeout'] };
     }
+    return {
+      value: new PrefixTimeout(
+        presses.map((press) => press.value),
+        raw.timeout,
+      ),
+      problems: flatten(presses.map((press) => press.problems)),
+    };
+  }
 
-    return PressKind.NormalKey;
-  };
-}
-
-class KeyMap implements Iterable<KeyPress> {
-  public static of(keyMapLike: KeyMap): KeyMap {
-    // FIXME : Theoretically possible to create a keymap without a commandID.
-
-    const sequence = keyMapLike.sequence || [];
-
-    const presses = sequence.map(KeyPress.of);
-    const command = keyMapLike.commandID;
-    return new KeyMap(command, presses);
+  public static of(prefixTimeoutLike: PrefixTimeout): PrefixTimeout {
+    const sequence = (prefixTimeoutLike.sequence || []).map(KeyPress.of);
+    return new PrefixTimeout(sequence, prefixTimeoutLike.timeout);
   }
 
   public sequence: KeyPress[];
-  public commandID: string;
+  public timeout: number;
 
-  constructor(commandID: string, sequence: KeyPress[]) {
+  constructor(sequence: KeyPress[], timeout: number) {
     this.sequence = sequence;
-    this.commandID = commandID;
-  }
-
-  public [Symbol.iterator](): Iterator<KeyPress> {
-    return this.sequence.values();
+    this.timeout = timeout;
   }
-
-  public text = (): string => {
-    return (
-      this.commandID +
-      ' = ' +
-      this.sequence.map((press) => press.text()).join(' => ')
-    );
-  };
 }
 
 interface KeyBinding {
+  // Version of the settings schema, see `migrations`.
+  version: number;
   hotkeys: KeyMap[];
+  // Milliseconds before an unfinished sequence is abandoned, 0 to wait forever.
+  timeout: number;
+  // How keymaps which do not choose for themselves are matched.
+  matchBy: KeyMatching;
+  // Record Ctrl (Cmd on macOS) as Mod, which works on every platform.
+  recordMod: boolean;
+  prefixTimeouts: PrefixTimeout[];
+  replayUnmatched: boolean;
+  // Show sequences in progress and their outcome in the status bar.
+  showSequence: boolean;
+  // Milliseconds without a key before layers are left, 0 to wait for Escape.
+  layerTimeout: number;
+  // Milliseconds during which repeatable keymaps run without their prefix.
+  repeatTimeout: number;
+  // Vault path of a file holding more keymaps in the text format, if any.
+  keymapFile: string;
+  // Vault path of the generated cheat sheet note.
+  cheatSheetFile: string;
+  // Rewrite the cheat sheet, if it exists, whenever the keymaps change.
+  updateCheatSheet: boolean;
 }
 
-// endregion
-
-// region Matching of existing keymaps
-interface HashIter extends Iterable<Hashable> {}
-
-class TrieNode<T> {
-  public children = new Map<string, TrieNode<T>>();
-
-  public value: Optional<T>;
-
-  public child(key: string): Optional<TrieNode<T>> {
-    return this.children.get(key);
-  }
+// Settings as saved, of any version.
+interface SavedData {
+  [key: string]: unknown;
+}
 
-  public addChild(key: string, child: TrieNode<T>): void {
-    this.value = null;
-    this.children.set(key, child);
-  }
+interface MigrationContext {
+  // The leader hotkey of the pre-0.2 settings, which Obsidian stored.
+  legacyLeader: Optional<KeyPress>;
+}
 
-  public leaves(): TrieNode<T>[] {
-    if (this.isLeaf()) {
-      return [this];
-    }
+interface Migration {
+  // Version of the settings produced by this migration.
+  version: number;
+  // Upgrades the data in place, returning a summary of what changed.
+  migrate: (data: SavedData, context: MigrationContext) => string;
+}
 
-    let result: TrieNode<T>[] = [];
+interface MigrationResult {
+  data: SavedData;
+  fromVersion: number;
+  reports: string[];
+}
 
-    this.children.forEach((child, _) => {
-      result = result.concat(child.leaves());
-    });
+interface ConflictReport {
+  // Keymaps with the exact same sequence.
+  duplicates: KeyMap[];
+  // Keymaps which start with the new sequence.
+  extensions: KeyMap[];
+  // Keymaps which the new sequence starts with.
+  prefixes: KeyMap[];
+  // Obsidian commands whose own hotkey is the first key of the sequence.
+  nativeCommands: ObsidianCommand[];
+}
 
-    return result;
-  }
+// endregion
 
-  public leafValues(): T[] {
-    return this.leaves().map((node) => node.value);
-  }
+// region Matching of existing keymaps
+class ContinuationPopup {
+  private readonly app: App;
+  private popupEl: Optional<HTMLElement>;
 
-  public isLeaf(): boolean {
-    return this.children.size === 0;
+  public constructor(app: App) {
+    this.app = app;
+    this.popupEl = null;
   }
 
-  public setValue(value: T): void {
-    this.value = value;
-  }
-}
+  public show(
+    prefix: readonly KeyPress[],
+    continuations: Continuation[],
+    count = 1,
+  ): void {
+    this.hide();
+    if (continuations.length === 0) {
+      return;
+    }
 
-class Trie<T extends HashIter> {
-  public static from<K extends HashIter>(iter: K[]): Trie<K> {
-    const trie = new Trie<K>();
-    trie.addAll(iter);
-    return trie;
-  }
+    const popupEl = document.body.createDiv('leader-hotkeys-popup');
+    const header = popupEl.createDiv('leader-hotkeys-popup-prefix');
+    header.append(...prefix.map(kbd));
+    if (count > 1) {
+      header.createSpan({
+        cls: 'leader-hotkeys-popup-count',
+        text: `${count}×`,
+      });
+    }
 
-  private readonly root: TrieNode<T>;
+    const sorted = [...continuations].sort((left, right) =>
+      left.press.text().localeCompare(right.press.text()),
+    );
+    const list = popupEl.createDiv('leader-hotkeys-popup-list');
+    for (const continuation of sorted) {
+      const entry = list.createDiv('leader-hotkeys-popup-entry');
+      entry.appendChild(kbd(continuation.press));
+      entry.createSpan({ text: this.describe(continuation) });
+    }
 
-  constructor() {
-    this.root = new TrieNode();
+    this.popupEl = popupEl;
   }
 
-  public addAll(iter: T[]): Trie<T> {
-    for (const item of iter) {
-      this.add(item);
+  public hide(): void {
+    if (this.popupEl) {
+      this.popupEl.remove();
+      this.popupEl = null;
     }
-    return this;
   }
 
-  public add(composite: T): Trie<T> {
-    // FIXME : Honestly, very sus implementation
-    let lastSeenNode = this.root;
-    for (const component of composite) {
-      const key = component.asHash();
-      const child = lastSeenNode.child(key) || new TrieNode();
-      lastSeenNode.addChild(key, child);
-      lastSeenNode = child;
-    }
-    if (lastSeenNode.value !== undefined) {
-      throw new Error('Duplicate keymap');
+  private describe(continuation: Continuation): string {
+    if (!continuation.isPrefix) {
+      return keymapName(this.app, continuation.keymap);
     }
-    lastSeenNode.setValue(composite);
-    return this;
-  }
-
-  public bestMatch(sequence: Hashable[]): Optional<TrieNode<T>> {
-    let lastNode = this.root;
-    for (const keyPress of sequence) {
-      const key = keyPress.asHash();
-      const child = lastNode.child(key);
-      if (!child) {
-        return null;
-      }
-      lastNode = child;
+    if (continuation.keymap) {
+      const name = keymapName(this.app, continuation.keymap);
+      return `${name} (+${continuation.keymaps.length - 1} more)`;
     }
-
-    return lastNode;
+    return `+${continuation.keymaps.length} more`;
   }
 }
 
-enum MatchKind {
-  NoMatch,
-  PartialMatch,
-  FullMatch,
-}
-
-enum MatchState {
-  EmptyMatch,
-  StartedMatch,
-  RetainedMatch,
-  ImprovedMatch,
-  SuccessMatch,
-  InvalidMatch,
-}
-
-enum MatchStateKind {
-  Initial,
-  Flow,
-  Terminal,
-}
-
-class MatchMachine implements StateMachine<KeyPress, MatchState> {
-  private readonly trie: Trie<KeyMap>;
-  private currentState: MatchState;
-  private currentSequence: KeyPress[];
-  private currentMatches: KeyMap[];
+// The status bar is hidden on mobile, where the indicator floats instead.
+class StatusIndicator {
+  private readonly parent: LeaderHotkeys;
+  private readonly indicatorEl: HTMLElement;
+  private layers: string[];
+  private message: string;
+  private timer: Optional<number>;
 
-  constructor(trie: Trie<KeyMap>) {
-    this.trie = trie;
-    this.currentState = MatchState.EmptyMatch;
-    this.currentSequence = [];
-    this.currentMatches = [];
+  public constructor(parent: LeaderHotkeys, indicatorEl: HTMLElement) {
+    this.parent = parent;
+    this.indicatorEl = indicatorEl;
+    this.indicatorEl.addClass('leader-hotkeys-indicator');
+    this.layers = [];
+    this.message = '';
+    this.timer = null;
   }
 
-  public advance = (keypress: KeyPress): MatchState => {
-
-
-
-    const macroState = this.stateKind();
-    const wasAlreadySearching = macroState === MatchStateKind.Flow;
-    if (macroState === MatchStateKind.Terminal) {
-      // Reset and try again.
-      this.currentState = MatchState.EmptyMatch;
-      this.currentSequence = [];
-      this.currentMatches = [];
-      return this.advance(keypress);
-    }
-    if (keypress.kind() === PressKind.ModifierOnly) {
-      this.currentState = [MatchState.EmptyMatch , MatchState.InvalidMatch , MatchState.SuccessMatch].includes( this.currentState)
-                          ? MatchState.EmptyMatch
-                          : MatchState.RetainedMatch;
+  public setLayers(layers: readonly string[]): void {
+    this.layers = [...layers];
+    this.render();
+  }
 
-      return this.currentState;
-    }
+  public progress(presses: readonly KeyPress[]): void {
+    this.show(presses.map((press) => press.text()).join(' '), false);
+  }
 
-    this.currentSequence.push(keypress);
-    const bestMatch = this.trie.bestMatch(this.currentSequence);
-    const matchKind = interpretMatch(bestMatch);
-    this.currentMatches = bestMatch ? bestMatch.leafValues() : [];
+  public succeed(keymap: KeyMap): void {
+    this.show(keymapName(this.parent.app, keymap), false);
+    this.clearLater();
+  }
 
-    switch (matchKind) {
-      case MatchKind.NoMatch:
-        this.currentSequence = []
-        this.currentState = wasAlreadySearching
-          ? MatchState.InvalidMatch
-          : MatchState.EmptyMatch;
-        break;
-      case MatchKind.PartialMatch:
-        this.currentState = wasAlreadySearching
-          ? MatchState.ImprovedMatch
-          : MatchState.StartedMatch;
-        break;
-      case MatchKind.FullMatch:
-        this.currentState = wasAlreadySearching
-          ? MatchState.SuccessMatch
-          : // Very sus to reach success state at first try.
-            MatchState.SuccessMatch;
-        break;
+  public fail(presses: readonly KeyPress[]): void {
+    this.show(presses.map((press) => press.text()).join(' '), true);
+    this.clearLater();
+  }
 
+  public clear(): void {
+    this.clearTimer();
+    if (this.message) {
+      this.message = '';
+      this.indicatorEl.removeClass('is-invalid');
+      this.render();
     }
+  }
 
-    return this.currentState;
-  };
-
-  public allMatches = (): readonly KeyMap[] => {
-    return this.currentMatches;
-  };
-
-  public fullMatch = (): Optional<KeyMap> => {
-    const numMatches = this.allMatches().length;
-    const isFullMatch = this.currentState === MatchState.SuccessMatch;
+  public dispose(): void {
+    this.clearTimer();
+  }
 
-    // Sanity checking.
-    if (isFullMatch && numMatches !== 1) {
-      writeConsole(
-        'State Machine in FullMatch state, but availableHotkeys.length contains more than 1 element. This is definitely a bug.',
-      );
-      return null;
+  private show(message: string, invalid: boolean): void {
+    if (!this.parent.settings.showSequence) {
+      return;
     }
+    this.clearTimer();
+    this.message = message;
+    this.indicatorEl.toggleClass('is-invalid', invalid);
+    this.render();
+  }
 
-    if (isFullMatch && numMatches === 1) {
-      return this.currentMatches[0];
+  private clearLater(): void {
+    if (this.message) {
+      this.timer = window.setTimeout(() => {
+        this.timer = null;
+        this.clear();
+      }, indicatorDelay);
     }
-    return null;
-  };
+  }
 
-  public stateKind = (): MatchStateKind => {
-    if (this.currentState === MatchState.EmptyMatch) {
-      return MatchStateKind.Initial;
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
     }
+  }
 
-    const flowStates = [
-      MatchState.StartedMatch,
-      MatchState.RetainedMatch,
-      MatchState.ImprovedMatch,
-    ];
-
-    return flowStates.includes(this.currentState)
-      ? MatchStateKind.Flow
-      : MatchStateKind.Terminal;
-  };
+  private render(): void {
+    const layer =
+      this.layers.length >= 1 ? `Layer: ${this.layers.join(' > ')}` : '';
+    this.indicatorEl.setText(
+      [layer, this.message].filter((part) => part).join(' | '),
+    );
+  }
 }
 
 class MatchHandler {
   private trie: Trie<KeyMap>;
   private machine: MatchMachine;
+  private keymaps: KeyMap[];
+  private contextKey: Optional<string>;
   private readonly parent: LeaderHotkeys;
+  private readonly popup: ContinuationPopup;
+  private timer: Optional<number>;
+  // Entered layers, the innermost last.
+  private readonly layers: string[];
+  private layerTimer: Optional<number>;
 
   public constructor(parent: LeaderHotkeys) {
     this.parent = parent;
-    this.setKeymap(parent.settings.hotkeys);
+    this.popup = new ContinuationPopup(parent.app);
+    this.timer = null;
+    this.layers = [];
+    this.layerTimer = null;
+    this.setKeymap(parent.activeKeymaps());
   }
 
   public readonly handleKeyDown = (event: KeyboardEvent): void => {
     const keypress = KeyPress.fromEvent(event);
     console.debug( keypress );
+
+    // Repeating keymaps often change the context, by focusing another pane.
+    if (
+      this.machine.stateKind() !== MatchStateKind.Flow &&
+      !this.machine.canRepeat()
+    ) {
+      this.scopeTo(this.activeContext());
+    }
+
+    if (keypress.asHash() === cancelKey.asHash()) {
+      if (this.machine.stateKind() === MatchStateKind.Flow) {
+        event.preventDefault();
+        writeConsole('Sequence cancelled.');
+        this.cancel();
+        return;
+      }
+      if (this.layers.length >= 1) {
+        event.preventDefault();
+        this.leaveLayers(1);
+        return;
+      }
+    }
+
     const machineState = this.machine.advance(keypress);
+    if (
+      this.layers.length >= 1 &&
+      machineState === MatchState.EmptyMatch &&
+      keypress.kind() !== PressKind.ModifierOnly
+    ) {
+      // Keys foreign to the layer leave it and are handled as usual.
+      this.leaveLayers(this.layers.length);
+      this.handleKeyDown(event);
+      return;
+    }
+    if (this.layers.length >= 1) {
+      this.startLayerTimer();
+    }
     writeConsole(
       `An keypress resulted in a ${MatchState[machineState]} state.`,
     );
 
+    if (machineState === MatchState.SuccessMatch && this.machine.settledBy()) {
+      // The key which ended an ambiguous sequence is handled anew, so that
+      // it can start another sequence or reach the editor.
+      this.emit(this.machine.fullMatch(), this.machine.count());
+      this.machine.reset();
+      this.handleKeyDown(event);
+      return;
+    }
     if (this.machine.stateKind() !== MatchStateKind.Initial) {
       event.preventDefault();
 
       if (machineState === MatchState.SuccessMatch) {
         const keymap = this.machine.fullMatch();
-        this.emit(keymap);
+        this.emit(keymap, this.machine.count());
+      }
+      if (machineState === MatchState.InvalidMatch) {
+        this.parent.indicator.fail(this.machine.swallowed());
+        this.replay(this.machine.swallowed());
+      }
+    }
+
+    if (this.machine.stateKind() === MatchStateKind.Flow) {
+      this.parent.indicator.progress(this.machine.swallowed());
+      this.popup.show(
+        this.machine.sequence(),
+        this.machine.continuations(),
+        this.machine.count(),
+      );
+      this.startTimer();
+    } else {
+      this.popup.hide();
+      this.clearTimer();
+      if (this.machine.canRepeat()) {
+        this.startRepeatTimer();
       }
     }
   };
 
-  public emit(keymap: Optional<KeyMap>): void {
+  public emit(keymap: Optional<KeyMap>, count = 1): void {
     if (keymap) {
-      this.parent.invokeCommand(keymap.commandID);
+      this.parent.indicator.succeed(keymap);
+      this.parent.runKeymap(keymap, count).catch(() => {
+        createNotice(`Error while running ${keymap.text()}.`);
+      });
       return;
     }
 
@@ -458,148 +452,189 @@ class MatchHandler {
   }
 
   public setKeymap(keymaps: KeyMap[]): void {
-    this.trie = Trie.from(keymaps || []);
-    this.machine = new MatchMachine(this.trie);
+    this.popup.hide();
+    this.clearTimer();
+    this.keymaps = keymaps || [];
+    this.contextKey = null;
+    this.scopeTo(this.activeContext());
+  }
+
+  public enterLayer(layer: string): void {
+    this.layers.push(layer);
+    this.machine.reset();
+    this.scopeTo(this.activeContext());
+    this.parent.indicator.setLayers(this.layers);
+    this.startLayerTimer();
+  }
+
+  public dispose(): void {
+    this.popup.hide();
+    this.clearTimer();
+    this.clearLayerTimer();
   }
 
   public findMatchingKeymaps(presses: KeyPress[]): KeyMap[] {
     const matches = this.trie.bestMatch(presses);
     return matches ? matches.leafValues() : [];
   }
-}
-
-// endregion
-
-// region Recording of new keymaps
-enum RecordingState {
-  EmptySequence,
-  FirstKey,
-  AddedKeys,
-  WaitingInput,
-  DeletedKey,
-  PendingAddition,
-  PendingDeletion,
-  FinishedMapping,
-}
 
-enum PendingChoice {
-  KeepLiteral,
-  DiscardLiteral,
-  DeletePrevious,
-  Finish,
-  Unknown,
-}
+  // Only the keymaps applying to the active context are matched against.
+  private scopeTo(active: ActiveContext): void {
+    const key = JSON.stringify(active);
+    if (key === this.contextKey) {
+      return;
+    }
 
-class RecordingMachine implements StateMachine<KeyPress, RecordingState> {
-  private currentState: RecordingState;
-  private readonly currentSequence: KeyPress[];
+    const matchBy = this.parent.settings.matchBy;
+    this.trie = Trie.from(
+      scopedKeymaps(this.keymaps, active, matchBy),
+      (keymap) => keymapHashes(keymap, matchBy),
+    );
+    this.machine = new MatchMachine(this.trie);
+    // Only once built, so a failure leaves the context to be scoped again.
+    this.contextKey = key;
+  }
 
-  constructor() {
-    this.currentState = RecordingState.EmptySequence;
-    this.currentSequence = [];
+  private activeContext(): ActiveContext {
+    const layer = this.layers[this.layers.length - 1];
+    return { ...this.parent.currentContext(), layer: layer || null };
   }
 
-  public readonly advance = (keyPress: KeyPress): RecordingState => {
-    const classification = keyPress.kind();
+  private leaveLayers(count: number): void {
+    this.layers.splice(this.layers.length - count, count);
+    this.cancel();
+    this.clearLayerTimer();
+    this.scopeTo(this.activeContext());
+    this.parent.indicator.setLayers(this.layers);
+    if (this.layers.length >= 1) {
+      this.startLayerTimer();
+    }
+  }
 
-    if (classification === PressKind.ModifierOnly) {
-      return this.currentState;
+  private startLayerTimer(): void {
+    this.clearLayerTimer();
+    const timeout = this.parent.settings.layerTimeout;
+    if (timeout <= 0) {
+      return;
     }
 
-    if ( this.currentState === RecordingState.FinishedMapping) {
-      // Explicitly state that it can be re-started without loss.
-      this.currentState = RecordingState.WaitingInput;
-      return this.advance(keyPress);
+    this.layerTimer = window.setTimeout(() => {
+      this.layerTimer = null;
+      writeConsole(`Left layers after ${timeout}ms.`);
+      this.leaveLayers(this.layers.length);
+    }, timeout);
+  }
+
+  private clearLayerTimer(): void {
+    if (this.layerTimer !== null) {
+      window.clearTimeout(this.layerTimer);
+      this.layerTimer = null;
     }
+  }
 
-    if (
-        this.currentState === RecordingState.PendingAddition ||
-        this.currentState === RecordingState.PendingDeletion
-    ) {
-      const previousLiteral = this.currentSequence.pop();
-      const action = this.interpretAction(keyPress);
+  private cancel(): void {
+    this.machine.reset();
+    this.popup.hide();
+    this.parent.indicator.clear();
+    this.clearTimer();
+  }
 
-      switch (action) {
-        case PendingChoice.KeepLiteral:
-          this.currentSequence.push(previousLiteral);
-          this.currentState = RecordingState.AddedKeys;
-          break;
-        case PendingChoice.DiscardLiteral:
-          this.currentState = RecordingState.WaitingInput;
-          break;
-        case PendingChoice.DeletePrevious:
-          this.currentSequence.pop();
-          this.currentState = RecordingState.DeletedKey;
-          break;
-        case PendingChoice.Finish:
-          this.currentState = RecordingState.FinishedMapping;
-          break;
-        default:
-          this.currentSequence.push(previousLiteral);
-          break;
-      }
-    } else {
-      this.currentSequence.push(keyPress);
-      if (classification === PressKind.SpecialKey) {
-        this.currentState =
-          keyPress.key === 'Enter'
-            ? RecordingState.PendingAddition
-            : RecordingState.PendingDeletion;
-      } else {
-        this.currentState =
-          this.currentSequence.length === 1
-            ? RecordingState.FirstKey
-            : RecordingState.AddedKeys;
-      }
+  private startTimer(): void {
+    this.clearTimer();
+    const timeout = this.timeoutFor(this.machine.sequence());
+    if (timeout <= 0) {
+      return;
     }
 
-    return this.currentState;
-  };
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      writeConsole(`Sequence timed out after ${timeout}ms.`);
+      if (this.machine.resolve() === MatchState.SuccessMatch) {
+        this.popup.hide();
+        this.emit(this.machine.fullMatch(), this.machine.count());
+        if (this.machine.canRepeat()) {
+          this.startRepeatTimer();
+        }
+        return;
+      }
 
-  public readonly presses = (): KeyPress[] => {
-    return this.currentSequence;
-  };
-  public readonly documentRepresentation = (): HTMLElement[] => {
-    return this.presses().map((press) => press.kbd());
-  };
+      const swallowed = [...this.machine.swallowed()];
+      this.cancel();
+      this.parent.indicator.fail(swallowed);
+      this.replay(swallowed);
+    }, timeout);
+  }
+
+  private startRepeatTimer(): void {
+    this.clearTimer();
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      this.machine.reset();
+    }, this.parent.settings.repeatTimeout);
+  }
 
-  private interpretAction(keypress: KeyPress): PendingChoice {
-    if (keypress.ctrl && keypress.alt && keypress.key === 'Enter') {
-      return PendingChoice.Finish;
+  private replay(presses: readonly KeyPress[]): void {
+    if (this.parent.settings.replayUnmatched) {
+      this.parent.replayKeyPresses(presses);
     }
-    if (keypress.key === 'Enter') {
-      return PendingChoice.KeepLiteral;
-    } else if (
-        keypress.key === 'Backspace' &&
-        this.currentState === RecordingState.PendingDeletion
-    ) {
-      return PendingChoice.DeletePrevious;
-    } else if (
-        keypress.key === 'Backspace' &&
-        this.currentState === RecordingState.PendingAddition
-    ) {
-      return PendingChoice.DiscardLiteral;
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private timeoutFor(sequence: readonly KeyPress[]): number {
+    // The most specific override wins. Overrides are also looked up in the
+    // trie, which matches keymaps by physical key whatever the layout.
+    let best: Optional<PrefixTimeout> = null;
+    for (const override of this.parent.settings.prefixTimeouts) {
+      const length = override.sequence.length;
+      const prefix = sequence.slice(0, length);
+      const node = this.trie.bestMatch(prefix);
+      if (
+        length <= sequence.length &&
+        (sequenceKey(override.sequence) === sequenceKey(prefix) ||
+          (node && node === this.trie.bestMatch(override.sequence))) &&
+        (!best || length > best.sequence.length)
+      ) {
+        best = override;
+      }
     }
-    return PendingChoice.Unknown;
+    return best ? best.timeout : this.parent.settings.timeout;
   }
 }
 
+// endregion
+
+// region Recording of new keymaps
 class RecordingModal extends Modal {
   private readonly parent: LeaderSettingsTab;
   private readonly registerMachine: RecordingMachine;
-  private readonly commandId: string;
+  // Everything but the sequence of the keymap being recorded.
+  private readonly template: KeyMap;
+  private readonly replacing: Optional<KeyMap>;
   private currentSequence: KeyPress[];
+  private notationEl: HTMLInputElement;
 
-  constructor(parent: LeaderSettingsTab, commandId: string) {
+  constructor(
+    parent: LeaderSettingsTab,
+    template: KeyMap,
+    replacing?: KeyMap,
+    prefix: readonly KeyPress[] = [],
+  ) {
     super(parent.app);
     this.parent = parent;
-    this.commandId = commandId;
-    this.registerMachine = new RecordingMachine();
-    this.currentSequence = [];
+    this.template = template;
+    this.replacing = replacing;
+    this.registerMachine = new RecordingMachine(prefix);
+    this.currentSequence = [...prefix];
   }
 
   public readonly onOpen = (): void => {
-    this.renderContent(this.registerMachine.documentRepresentation());
+    this.renderContent(this.registerMachine.presses().map(kbd));
 
     document.addEventListener('keydown', this.handleKeyDown);
   };
@@ -610,8 +645,16 @@ class RecordingModal extends Modal {
   };
 
   private readonly handleKeyDown = (event: KeyboardEvent): void => {
+    // Keys typed as text are not recorded.
+    if (event.target === this.notationEl) {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        this.saveSequence();
+      }
+      return;
+    }
     event.preventDefault();
-    const keyPress = KeyPress.fromEvent(event);
+    const keyPress = this.parent.recordedPress(event);
     const registerState = this.registerMachine.advance(keyPress);
     this.currentSequence = this.registerMachine.presses();
 
@@ -648,7 +691,7 @@ class RecordingModal extends Modal {
     this.contentEl.empty();
 
     const command = document.createElement('kbd');
-    command.setText(this.commandId);
+    command.setText(keymapName(this.app, this.template));
     const header = document.createElement('h3');
     header.setText('Adding keymap for command ');
     header.appendChild(command);
@@ -669,6 +712,21 @@ class RecordingModal extends Modal {
     if (additionalContent) {
       this.contentEl.append(...additionalContent);
     }
+    new Setting(this.contentEl)
+      .setName('Or type the keys')
+      .setDesc('Such as C-b h, <Space> f f or <CR>, as in the export format.')
+      .addText((text) => {
+        this.notationEl = text.inputEl;
+        text.inputEl.addClass('leader-hotkeys-notation');
+        text
+          .setPlaceholder('C-b h')
+          .setValue(sequenceNotation(this.currentSequence))
+          .onChange((value) => {
+            const sequence = parseSequence(value);
+            text.inputEl.toggleClass('is-invalid', !!value.trim() && !sequence);
+            this.currentSequence = sequence ?? [];
+          });
+      });
     new Setting(this.contentEl).addButton((button) => {
       button.setButtonText('Save');
       button.onClick(() => {
@@ -678,37 +736,41 @@ class RecordingModal extends Modal {
   };
 
   private readonly saveSequence = (): void => {
-    const conflicts = this.parent.conflicts(this.currentSequence);
-    if (conflicts.length >= 1) {
-      // todo handle this properly
-      createNotice('There are conflicts with your keyPresses!');
+    if (this.currentSequence.length === 0) {
+      createNotice('Press or type at least one key before saving.');
+      return;
+    }
+
+    const newKeyMap = KeyMap.of(this.template);
+    newKeyMap.sequence = [...this.currentSequence];
+    const report = this.parent.conflicts(
+      newKeyMap.sequence,
+      this.replacing,
+      newKeyMap.context,
+    );
+    if (hasConflicts(report)) {
+      new ConflictModal(this.parent, newKeyMap, report, this.replacing).open();
     } else {
-      const newKeyMap = new KeyMap(this.commandId, this.currentSequence);
-      this.parent.addKeymap(newKeyMap);
-      const sequenceRepr = newKeyMap.sequence
-        .map((key) => key.text())
-        .join(' => ');
-      createNotice(`Command  ${this.commandId}
-           can now be invoked by ${sequenceRepr}`);
-      this.close();
+      this.parent.addKeymap(newKeyMap, this.replacing);
     }
+    this.close();
   };
 
   private readonly renderNormally = (): void => {
-    this.renderContent(this.registerMachine.documentRepresentation());
+    this.renderContent(this.registerMachine.presses().map(kbd));
   };
   private readonly renderPending = (mappingState: RecordingState): void => {
     // Inplace mutation :(
-    const elements = this.registerMachine.documentRepresentation();
+    const elements = this.registerMachine.presses().map(kbd);
     const lastElement = elements[elements.length - 1];
     lastElement.style.opacity = '0.5';
 
-    const enter = KeyPress.just('Enter').kbd();
+    const enter = kbd(KeyPress.just('Enter'));
     enter.style.borderColor = 'green';
-    const backspace = KeyPress.just('Backspace').kbd();
+    const backspace = kbd(KeyPress.just('Backspace'));
     backspace.style.borderColor = 'red';
 
-    const ctrlAltEnter = KeyPress.ctrlAlt('Enter').kbd();
+    const ctrlAltEnter = kbd(KeyPress.ctrlAlt('Enter'));
     const pressLiteral = lastElement.cloneNode(true) as HTMLElement;
     pressLiteral.style.opacity = '1';
 
@@ -736,43 +798,613 @@ class RecordingModal extends Modal {
   };
 }
 
-class CommandModal extends Modal {
+class ConflictModal extends Modal {
   private readonly parent: LeaderSettingsTab;
-  private commandId: string;
-
-  constructor(parent: LeaderSettingsTab) {
+  private readonly keymap: KeyMap;
+  private readonly report: ConflictReport;
+  private readonly replacing: Optional<KeyMap>;
+
+  constructor(
+    parent: LeaderSettingsTab,
+    keymap: KeyMap,
+    report: ConflictReport,
+    replacing: Optional<KeyMap>,
+  ) {
     super(parent.app);
     this.parent = parent;
+    this.keymap = keymap;
+    this.report = report;
+    this.replacing = replacing;
   }
 
   public onOpen(): void {
-    const title = document.createElement('h3');
-    title.setText('Leader Hotkeys: pick a command to create a keymap.');
-    this.contentEl.appendChild(title);
-    const setting = new Setting(this.contentEl);
+    const report = this.report;
+    const header = this.contentEl.createEl('h3', {
+      text: `Conflicts for ${keymapName(this.app, this.keymap)} `,
+    });
+    header.append(...this.keymap.sequence.map(kbd));
 
-    setting.addDropdown((dropdown) => {
-      dropdown.selectEl.addClass('leader-hotkeys-command');
+    this.renderKeymaps(
+      'This exact sequence is already used by:',
+      report.duplicates,
+    );
+    this.renderKeymaps('This sequence is the start of:', report.extensions);
+    this.renderKeymaps('This sequence starts with:', report.prefixes);
+    if (report.extensions.length + report.prefixes.length >= 1) {
+      this.contentEl.createEl('p', {
+        text: 'Overlapping sequences can be kept together: the shorter one runs once the timeout expires, or when a key which does not continue it is pressed.',
+      });
+    }
 
-      for (const command of this.parent.obsidianCommands()) {
-        dropdown.addOption(command.id, command.name);
+    if (report.nativeCommands.length >= 1) {
+      this.contentEl.createEl('p', {
+        text: 'The first key is also an Obsidian hotkey, which will run alongside the sequence:',
+      });
+      for (const command of report.nativeCommands) {
+        new Setting(this.contentEl).setName(command.name).setDesc(command.id);
       }
+    }
 
-      const placeHolder = new Option('Select a Command', 'placeholder', true);
-      placeHolder.setAttribute('disabled', 'true');
-      placeHolder.setAttribute('selected', 'true');
-      placeHolder.setAttribute('hidden', 'true');
-      dropdown.selectEl.append(placeHolder);
-
-      dropdown.setValue('placeholder');
-      dropdown.onChange((selectedId) => {
-        this.commandId = selectedId;
+    const buttons = new Setting(this.contentEl);
+    if (this.conflictingKeymaps().length >= 1) {
+      buttons.addButton((button) => {
+        button
+          .setButtonText('Replace')
+          .setTooltip('Delete the conflicting keymaps and save this one')
+          .setWarning()
+          .onClick(() => {
+            this.save(this.conflictingKeymaps());
+          });
+      });
+    }
+    if (report.duplicates.length === 0) {
+      buttons.addButton((button) => {
+        button
+          .setButtonText('Save anyway')
+          .setCta()
+          .onClick(() => {
+            this.save([]);
+          });
+      });
+    }
+    buttons.addButton((button) => {
+      button.setButtonText('Cancel').onClick(() => {
+        this.close();
       });
-      dropdown.selectEl.focus();
     });
+  }
 
-    setting.addButton((button) => {
-      button.setButtonText('OK');
+  public onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private renderKeymaps(description: string, keymaps: KeyMap[]): void {
+    if (keymaps.length === 0) {
+      return;
+    }
+
+    this.contentEl.createEl('p', { text: description });
+    for (const other of keymaps) {
+      const setting = new Setting(this.contentEl).setName(
+        keymapName(this.app, other),
+      );
+      setting.descEl.append(...other.sequence.map(kbd));
+      setting.addButton((button) => {
+        button
+          .setButtonText('Edit')
+          .setTooltip(
+            'Save this keymap, then record a new sequence for that one',
+          )
+          .onClick(() => {
+            this.editOther(other);
+          });
+      });
+    }
+  }
+
+  private conflictingKeymaps(): KeyMap[] {
+    return [
+      ...this.report.duplicates,
+      ...this.report.extensions,
+      ...this.report.prefixes,
+    ];
+  }
+
+  private save(removed: KeyMap[]): void {
+    this.parent.addKeymap(this.keymap, this.replacing, removed);
+    this.close();
+  }
+
+  // The other keymap stays until its new sequence is saved, so closing the
+  // recording dialog keeps it.
+  private editOther(other: KeyMap): void {
+    this.save([]);
+    new RecordingModal(this.parent, other, other).open();
+  }
+}
+
+class StaleModal extends Modal {
+  private readonly parent: LeaderSettingsTab;
+
+  constructor(parent: LeaderSettingsTab) {
+    super(parent.app);
+    this.parent = parent;
+  }
+
+  public onOpen(): void {
+    this.contentEl.empty();
+    this.parent.refreshCommands();
+    const commands = this.parent.obsidianCommands();
+    const known = new Set(commands.map((command) => command.id));
+    const stale = this.parent
+      .keymaps()
+      .filter((keymap) => staleCommandIDs(keymap, known).length >= 1);
+
+    this.contentEl.createEl('h3', { text: 'Keymaps of unavailable commands' });
+    if (stale.length === 0) {
+      this.contentEl.createEl('p', {
+        text: 'Every keymap runs commands which are available.',
+      });
+      return;
+    }
+    this.contentEl.createEl('p', {
+      text: 'These commands are not registered, usually because their plugin is disabled or was uninstalled. Remap them to one of the suggested commands, or remove the keymaps.',
+    });
+
+    for (const keymap of stale) {
+      for (const commandID of staleCommandIDs(keymap, known)) {
+        const name = document.createDocumentFragment();
+        name.append(...keymap.sequence.map(kbd));
+        const setting = new Setting(this.contentEl)
+          .setName(name)
+          .setDesc(`${commandID} is unavailable.`);
+        for (const command of similarCommands(commandID, commands)) {
+          setting.addButton((button) => {
+            button
+              .setButtonText(command.name)
+              .setTooltip('Remap to this command')
+              .onClick(() => this.remap(keymap, commandID, command.id));
+          });
+        }
+        setting.addExtraButton((button) => {
+          button
+            .setIcon('cross')
+            .setTooltip('Delete shortcut')
+            .onClick(() => this.remove([keymap]));
+        });
+      }
+    }
+
+    new Setting(this.contentEl).addButton((button) => {
+      button
+        .setButtonText(`Delete all ${stale.length}`)
+        .setWarning()
+        .onClick(() => this.remove(stale));
+    });
+  }
+
+  public onClose(): void {
+    this.contentEl.empty();
+    this.parent.display();
+  }
+
+  private remap(keymap: KeyMap, from: string, to: string): void {
+    const newKeymap = KeyMap.of(keymap);
+    for (const action of newKeymap.actions) {
+      if (isCommand(action) && action.commandID === from) {
+        action.commandID = to;
+      }
+    }
+    this.parent.updateKeymap(this.parent.keymaps().indexOf(keymap), newKeymap);
+    this.onOpen();
+  }
+
+  private remove(keymaps: KeyMap[]): void {
+    this.parent.removeKeymaps(keymaps);
+    this.onOpen();
+  }
+}
+
+class ContextModal extends Modal {
+  private readonly parent: LeaderSettingsTab;
+  private readonly positionId: number;
+  private readonly keymap: KeyMap;
+  private readonly context: KeyMapContext;
+
+  constructor(parent: LeaderSettingsTab, positionId: number, keymap: KeyMap) {
+    super(parent.app);
+    this.parent = parent;
+    this.positionId = positionId;
+    this.keymap = keymap;
+    this.context = { ...keymap.context };
+  }
+
+  public onOpen(): void {
+    const header = this.contentEl.createEl('h3', {
+      text: `Where ${keymapName(this.app, this.keymap)} applies `,
+    });
+    header.append(...this.keymap.sequence.map(kbd));
+    this.contentEl.createEl('p', {
+      text: 'The keymap only applies when all of the conditions below match. When several keymaps share a sequence, the most specific one wins.',
+    });
+
+    new Setting(this.contentEl).setName('View type').addDropdown((dropdown) => {
+      dropdown.addOption('', 'Any view');
+      for (const viewType of knownViewTypes) {
+        dropdown.addOption(viewType, viewType);
+      }
+      if (this.context.viewType) {
+        dropdown.addOption(this.context.viewType, this.context.viewType);
+      }
+      dropdown.setValue(this.context.viewType || '').onChange((value) => {
+        this.context.viewType = value || undefined;
+      });
+    });
+
+    new Setting(this.contentEl)
+      .setName('Editor mode')
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('', 'Any mode')
+          .addOption('source', 'Source')
+          .addOption('live-preview', 'Live preview')
+          .addOption('reading', 'Reading')
+          .setValue(this.context.mode || '')
+          .onChange((value) => {
+            this.context.mode = (value as EditorMode) || undefined;
+          });
+      });
+
+    new Setting(this.contentEl)
+      .setName('File path')
+      .setDesc('Glob such as Daily/**/*.md, where * stops at folders.')
+      .addText((text) => {
+        text.setValue(this.context.path || '').onChange((value) => {
+          this.context.path = value.trim() || undefined;
+        });
+      });
+
+    new Setting(this.contentEl).setName('Frontmatter tag').addText((text) => {
+      text.setValue(this.context.tag || '').onChange((value) => {
+        this.context.tag = value.trim().replace(/^#/, '') || undefined;
+      });
+    });
+
+    new Setting(this.contentEl)
+      .setName('Layer')
+      .setDesc(
+        'Keymaps in a layer only apply once it has been entered, and no others apply meanwhile.',
+      )
+      .addText((text) => {
+        text.setValue(this.context.layer || '').onChange((value) => {
+          this.context.layer = value.trim() || undefined;
+        });
+      });
+
+    new Setting(this.contentEl).addButton((button) => {
+      button
+        .setButtonText('Save')
+        .setCta()
+        .onClick(() => {
+          const context: KeyMapContext = {};
+          for (const name of Object.keys(contextNames)) {
+            const value = this.context[contextNames[name]];
+            if (value) {
+              setContextCondition(context, name, value);
+            }
+          }
+          this.parent.updateKeymap(
+            this.positionId,
+            new KeyMap(
+              this.keymap.actions,
+              this.keymap.sequence,
+              context,
+              this.keymap,
+            ),
+          );
+          this.close();
+        });
+    });
+  }
+
+  public onClose(): void {
+    this.contentEl.empty();
+    this.parent.display();
+  }
+}
+
+class ChainModal extends Modal {
+  private readonly parent: LeaderSettingsTab;
+  private readonly positionId: number;
+  private readonly keymap: KeyMap;
+  private readonly actions: KeyAction[];
+  private continueOnFailure: boolean;
+  private passCount: boolean;
+  private repeatable: boolean;
+  private matchBy: Optional<KeyMatching>;
+
+  constructor(parent: LeaderSettingsTab, positionId: number, keymap: KeyMap) {
+    super(parent.app);
+    this.parent = parent;
+    this.positionId = positionId;
+    this.keymap = keymap;
+    this.actions = keymap.actions.map((action) => ({ ...action }));
+    this.continueOnFailure = !!keymap.continueOnFailure;
+    this.passCount = !!keymap.passCount;
+    this.repeatable = !!keymap.repeatable;
+    this.matchBy = keymap.matchBy;
+  }
+
+  public onOpen(): void {
+    this.contentEl.empty();
+    const header = this.contentEl.createEl('h3', { text: 'Actions run by ' });
+    header.append(...this.keymap.sequence.map(kbd));
+
+    this.actions.forEach((action, i) => {
+      const setting = new Setting(this.contentEl).setName(`${i + 1}.`);
+      setting.addDropdown((dropdown) => {
+        for (const kind of Object.keys(actionKinds)) {
+          dropdown.addOption(kind, actionKinds[kind]);
+        }
+        dropdown.setValue(action.kind || 'command').onChange((kind) => {
+          this.actions[i] = this.blankAction(kind as ActionKind, action.delay);
+          this.onOpen();
+        });
+      });
+      switch (action.kind) {
+        case 'snippet':
+          setting.addTextArea((text) => {
+            text.inputEl.addClass('leader-hotkeys-snippet');
+            text
+              .setPlaceholder('Text, {{date}}, {{selection}}, {{cursor}}...')
+              .setValue(action.text)
+              .onChange((value) => {
+                action.text = value;
+              });
+          });
+          break;
+        case 'file':
+          setting.addText((text) => {
+            text
+              .setPlaceholder('Note#Heading')
+              .setValue(action.link)
+              .onChange((value) => {
+                action.link = value.replace(/^\[\[(.*)\]\]$/, '$1');
+              });
+          });
+          setting.addDropdown((dropdown) => {
+            for (const pane of Object.keys(paneKinds)) {
+              dropdown.addOption(pane, paneKinds[pane]);
+            }
+            dropdown.setValue(action.pane || 'current').onChange((pane) => {
+              action.pane = pane === 'current' ? undefined : (pane as PaneKind);
+            });
+          });
+          break;
+        case 'uri':
+          setting.addText((text) => {
+            text
+              .setPlaceholder('obsidian://...')
+              .setValue(action.uri)
+              .onChange((value) => {
+                action.uri = value.trim();
+              });
+          });
+          break;
+        case 'layer':
+          setting.addText((text) => {
+            text
+              .setPlaceholder('Layer name')
+              .setValue(action.layer)
+              .onChange((value) => {
+                action.layer = value.trim();
+              });
+          });
+          break;
+        default:
+          setting.addDropdown((dropdown) => {
+            dropdown.selectEl.addClass('leader-hotkeys-command');
+            const commands = this.parent.obsidianCommands();
+            for (const command of commands) {
+              dropdown.addOption(command.id, command.name);
+            }
+            if (!commands.some((command) => command.id === action.commandID)) {
+              dropdown.addOption(
+                action.commandID,
+                `${action.commandID} (unavailable)`,
+              );
+            }
+            dropdown.setValue(action.commandID).onChange((commandID) => {
+              action.commandID = commandID;
+            });
+          });
+      }
+      setting.addText((text) => {
+        text.inputEl.type = 'number';
+        text.inputEl.addClass('leader-hotkeys-delay');
+        text
+          .setPlaceholder('Delay (ms)')
+          .setValue(action.delay ? String(action.delay) : '')
+          .onChange((value) => {
+            const delay = parseTimeout(value);
+            action.delay = delay > 0 ? delay : undefined;
+          });
+      });
+      setting.addExtraButton((button) => {
+        button
+          .setIcon('up-chevron-glyph')
+          .setTooltip('Run earlier')
+          .onClick(() => this.move(i, i - 1));
+      });
+      setting.addExtraButton((button) => {
+        button
+          .setIcon('down-chevron-glyph')
+          .setTooltip('Run later')
+          .onClick(() => this.move(i, i + 1));
+      });
+      setting.addExtraButton((button) => {
+        button
+          .setIcon('cross')
+          .setTooltip('Remove action')
+          .onClick(() => {
+            if (this.actions.length === 1) {
+              createNotice('A keymap needs at least one action.');
+              return;
+            }
+            this.actions.splice(i, 1);
+            this.onOpen();
+          });
+      });
+    });
+
+    new Setting(this.contentEl)
+      .setName('Stop when a command fails')
+      .setDesc('A command fails when it is unavailable in the current state.')
+      .addToggle((toggle) => {
+        toggle.setValue(!this.continueOnFailure).onChange((value) => {
+          this.continueOnFailure = !value;
+        });
+      });
+
+    new Setting(this.contentEl)
+      .setName('Pass the count to the commands')
+      .setDesc(
+        'A count typed within the sequence normally repeats the commands. ' +
+          'Enable this for commands which read the count themselves.',
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.passCount).onChange((value) => {
+          this.passCount = value;
+        });
+      });
+
+    new Setting(this.contentEl)
+      .setName('Repeatable')
+      .setDesc(
+        'After this keymap runs, its last key, or that of another repeatable keymap with the same prefix, runs again without the prefix for a short while.',
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.repeatable).onChange((value) => {
+          this.repeatable = value;
+        });
+      });
+
+    new Setting(this.contentEl)
+      .setName('Match keys by')
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('', 'As in the settings')
+          .addOption('key', 'Character typed')
+          .addOption('code', 'Physical key')
+          .setValue(this.matchBy || '')
+          .onChange((value) => {
+            this.matchBy = (value as KeyMatching) || undefined;
+          });
+      });
+
+    new Setting(this.contentEl)
+      .addButton((button) => {
+        button.setButtonText('Add action').onClick(() => {
+          const last = this.actions[this.actions.length - 1];
+          this.actions.push({ ...last, delay: undefined });
+          this.onOpen();
+        });
+      })
+      .addButton((button) => {
+        button
+          .setButtonText('Save')
+          .setCta()
+          .onClick(() => {
+            if (!this.actions.every(isValidAction)) {
+              createNotice('Choose what every action runs before saving.');
+              return;
+            }
+            this.parent.updateKeymap(
+              this.positionId,
+              new KeyMap(
+                this.actions,
+                this.keymap.sequence,
+                this.keymap.context,
+                {
+                  continueOnFailure: this.continueOnFailure,
+                  passCount: this.passCount,
+                  repeatable: this.repeatable,
+                  matchBy: this.matchBy,
+                },
+              ),
+            );
+            this.close();
+          });
+      });
+  }
+
+  public onClose(): void {
+    this.contentEl.empty();
+    this.parent.display();
+  }
+
+  private blankAction(kind: ActionKind, delay?: number): KeyAction {
+    switch (kind) {
+      case 'snippet':
+        return { kind, text: '', delay };
+      case 'file':
+        return { kind, link: '', delay };
+      case 'uri':
+        return { kind, uri: '', delay };
+      case 'layer':
+        return { kind, layer: '', delay };
+    }
+    const [first] = this.parent.obsidianCommands();
+    return { commandID: first ? first.id : '', delay };
+  }
+
+  private move(from: number, to: number): void {
+    if (to < 0 || to >= this.actions.length) {
+      return;
+    }
+    const [action] = this.actions.splice(from, 1);
+    this.actions.splice(to, 0, action);
+    this.onOpen();
+  }
+}
+
+class CommandModal extends Modal {
+  private readonly parent: LeaderSettingsTab;
+  private commandId: string;
+
+  constructor(parent: LeaderSettingsTab) {
+    super(parent.app);
+    this.parent = parent;
+  }
+
+  public onOpen(): void {
+    const title = document.createElement('h3');
+    title.setText('Leader Hotkeys: pick a command to create a keymap.');
+    this.contentEl.appendChild(title);
+    const setting = new Setting(this.contentEl);
+
+    setting.addDropdown((dropdown) => {
+      dropdown.selectEl.addClass('leader-hotkeys-command');
+
+      for (const command of this.parent.obsidianCommands()) {
+        dropdown.addOption(command.id, command.name);
+      }
+
+      const placeHolder = new Option('Select a Command', 'placeholder', true);
+      placeHolder.setAttribute('disabled', 'true');
+      placeHolder.setAttribute('selected', 'true');
+      placeHolder.setAttribute('hidden', 'true');
+      dropdown.selectEl.append(placeHolder);
+
+      dropdown.setValue('placeholder');
+      dropdown.onChange((selectedId) => {
+        this.commandId = selectedId;
+      });
+      dropdown.selectEl.focus();
+    });
+
+    setting.addButton((button) => {
+      button.setButtonText('OK');
       button.onClick(() => {
         if (
           this.commandId === null ||
@@ -783,7 +1415,10 @@ class CommandModal extends Modal {
           return;
         }
 
-        const registerer = new RecordingModal(this.parent, this.commandId);
+        const registerer = new RecordingModal(
+          this.parent,
+          KeyMap.forCommand(this.commandId, []),
+        );
         registerer.open();
         this.close();
       });
@@ -791,11 +1426,485 @@ class CommandModal extends Modal {
   }
 }
 
+class CommandSuggestModal extends FuzzySuggestModal<ObsidianCommand> {
+  private readonly parent: LeaderSettingsTab;
+  private readonly onChoose: (command: ObsidianCommand) => void;
+
+  constructor(
+    parent: LeaderSettingsTab,
+    onChoose: (command: ObsidianCommand) => void,
+  ) {
+    super(parent.app);
+    this.parent = parent;
+    this.onChoose = onChoose;
+    this.setPlaceholder('Pick a command');
+  }
+
+  public getItems(): ObsidianCommand[] {
+    return this.parent.obsidianCommands();
+  }
+
+  public getItemText(command: ObsidianCommand): string {
+    return command.name;
+  }
+
+  public onChooseItem(command: ObsidianCommand): void {
+    this.onChoose(command);
+  }
+}
+
+// endregion
+
+// region Import and export of keymaps
+enum ImportMode {
+  Merge,
+  Replace,
+}
+
+enum ExportFormat {
+  Text,
+  Json,
+}
+
+interface ImportResult {
+  keymaps: KeyMap[];
+  issues: string[];
+}
+
+class ExportModal extends Modal {
+  private readonly parent: LeaderSettingsTab;
+  private format: ExportFormat;
+
+  constructor(parent: LeaderSettingsTab) {
+    super(parent.app);
+    this.parent = parent;
+    this.format = ExportFormat.Text;
+  }
+
+  public onOpen(): void {
+    this.contentEl.empty();
+    this.contentEl.createEl('h3', { text: 'Leader Hotkeys: export keymaps' });
+
+    const keymaps = this.parent.keymaps();
+    const exported =
+      this.format === ExportFormat.Json
+        ? keymapsToJson(keymaps)
+        : keymapsToText(keymaps);
+
+    new Setting(this.contentEl).setName('Format').addDropdown((dropdown) => {
+      dropdown
+        .addOption(String(ExportFormat.Text), 'Text')
+        .addOption(String(ExportFormat.Json), 'JSON')
+        .setValue(String(this.format))
+        .onChange((value) => {
+          this.format = Number(value);
+          this.onOpen();
+        });
+    });
+
+    const textArea = this.contentEl.createEl('textarea', {
+      cls: 'leader-hotkeys-transfer',
+    });
+    textArea.value = exported;
+    textArea.readOnly = true;
+
+    new Setting(this.contentEl).addButton((button) => {
+      button
+        .setButtonText('Copy to clipboard')
+        .setCta()
+        .onClick(() => {
+          navigator.clipboard
+            .writeText(exported)
+            .then(() => {
+              createNotice(`Copied ${keymaps.length} keymaps.`);
+              this.close();
+            })
+            .catch(() => {
+              createNotice('Could not access the clipboard.');
+            });
+        });
+    });
+  }
+
+  public onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+class ImportModal extends Modal {
+  private readonly parent: LeaderSettingsTab;
+  private mode: ImportMode;
+  private reviewed: string;
+
+  constructor(parent: LeaderSettingsTab) {
+    super(parent.app);
+    this.parent = parent;
+    this.mode = ImportMode.Merge;
+    this.reviewed = null;
+  }
+
+  public onOpen(): void {
+    this.contentEl.createEl('h3', { text: 'Leader Hotkeys: import keymaps' });
+    this.contentEl.createEl('p', {
+      text: 'Paste keymaps exported as JSON, or as text with one keymap per line, for example: <C-b> h  editor:focus-left',
+    });
+
+    const textArea = this.contentEl.createEl('textarea', {
+      cls: 'leader-hotkeys-transfer',
+    });
+    const reportEl = this.contentEl.createDiv();
+
+    new Setting(this.contentEl)
+      .setName('Mode')
+      .setDesc(
+        'Merging keeps existing keymaps unless the same sequence is imported.',
+      )
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption(String(ImportMode.Merge), 'Merge')
+          .addOption(String(ImportMode.Replace), 'Replace all')
+          .setValue(String(this.mode))
+          .onChange((value) => {
+            this.mode = Number(value);
+          });
+      })
+      .addButton((button) => {
+        button
+          .setButtonText('Import')
+          .setCta()
+          .onClick(() => {
+            const result = parseKeymaps(
+              textArea.value,
+              this.parent.keyMatching(),
+            );
+            const issues = result.issues.concat(
+              unknownCommandIssues(this.app, result.keymaps),
+            );
+            // Issues are shown once, importing again goes ahead.
+            if (issues.length >= 1 && this.reviewed !== textArea.value) {
+              this.reviewed = textArea.value;
+              this.renderReport(reportEl, result.keymaps, issues);
+              button.setButtonText('Import anyway');
+              return;
+            }
+            if (result.keymaps.length === 0) {
+              createNotice('Nothing to import.');
+              return;
+            }
+
+            this.parent.importKeymaps(result.keymaps, this.mode);
+            createNotice(
+              `Imported ${result.keymaps.length} keymaps with ${issues.length} issues.`,
+            );
+            this.close();
+          });
+      });
+  }
+
+  public onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private renderReport(
+    reportEl: HTMLElement,
+    keymaps: KeyMap[],
+    issues: string[],
+  ): void {
+    reportEl.empty();
+    reportEl.createEl('p', {
+      text: `${keymaps.length} keymaps can be imported, but there were ${issues.length} issues:`,
+    });
+    const list = reportEl.createEl('ul');
+    for (const issue of issues) {
+      list.createEl('li', { text: issue });
+    }
+  }
+}
+
+// endregion
+
+// region Listing of existing keymaps
+enum SortOrder {
+  Settings,
+  Keys,
+  Name,
+}
+
+enum Grouping {
+  None,
+  FirstKey,
+  Prefix,
+  Tree,
+}
+
+interface ListRow {
+  // Group headings have no keymap.
+  heading?: string;
+  positionId?: number;
+}
+
+// Renders only the rows scrolled into view, which all have the same height.
+class VirtualList<T> {
+  private readonly scrollEl: HTMLElement;
+  private readonly spacerEl: HTMLElement;
+  private readonly rowsEl: HTMLElement;
+  private readonly renderRow: (item: T, rowEl: HTMLElement) => void;
+  private items: T[];
+  private first: number;
+  private last: number;
+
+  public constructor(
+    containerEl: HTMLElement,
+    renderRow: (item: T, rowEl: HTMLElement) => void,
+  ) {
+    this.scrollEl = containerEl.createDiv('leader-hotkeys-list');
+    this.spacerEl = this.scrollEl.createDiv();
+    this.rowsEl = this.spacerEl.createDiv('leader-hotkeys-list-rows');
+    this.renderRow = renderRow;
+    this.items = [];
+    this.scrollEl.addEventListener('scroll', () => this.render());
+  }
+
+  public scrollTop(): number {
+    return this.scrollEl.scrollTop;
+  }
+
+  public scrollTo(scrollTop: number): void {
+    this.scrollEl.scrollTop = scrollTop;
+    this.render();
+  }
+
+  public setItems(items: T[]): void {
+    this.items = items;
+    this.spacerEl.style.height = `${items.length * listRowHeight}px`;
+    this.first = -1;
+    this.last = -1;
+    this.render();
+  }
+
+  private render(): void {
+    const height = this.scrollEl.clientHeight || window.innerHeight;
+    const first = Math.max(
+      0,
+      Math.floor(this.scrollEl.scrollTop / listRowHeight) - listOverscan,
+    );
+    const last = Math.min(
+      this.items.length,
+      first + Math.ceil(height / listRowHeight) + 2 * listOverscan,
+    );
+    if (first === this.first && last === this.last) {
+      return;
+    }
+
+    this.first = first;
+    this.last = last;
+    this.rowsEl.empty();
+    this.rowsEl.style.transform = `translateY(${first * listRowHeight}px)`;
+    for (let i = first; i < last; i++) {
+      const rowEl = this.rowsEl.createDiv('leader-hotkeys-list-row');
+      rowEl.style.height = `${listRowHeight}px`;
+      this.renderRow(this.items[i], rowEl);
+    }
+  }
+}
+
+// endregion
+
+// region Tree of keymaps
+// Prefixes of the keymaps as nested lists, which can be collapsed and
+// dragged onto one another.
+class KeymapTree {
+  private readonly parent: LeaderSettingsTab;
+  // Sequence keys of the expanded prefixes.
+  private readonly expanded: Set<string>;
+  private dragged: Optional<KeyPress[]>;
+
+  public constructor(parent: LeaderSettingsTab) {
+    this.parent = parent;
+    this.expanded = new Set();
+    this.dragged = null;
+  }
+
+  public render(containerEl: HTMLElement, keymaps: readonly KeyMap[]): void {
+    containerEl.empty();
+    const treeEl = containerEl.createDiv('leader-hotkeys-tree');
+    const rootEl = treeEl.createDiv({
+      cls: 'leader-hotkeys-tree-root',
+      text: `${keymaps.length} keymaps, drop here to move to the top level`,
+    });
+    this.makeDropTarget(rootEl, []);
+    this.renderChildren(treeEl, prefixTree(keymaps), []);
+  }
+
+  private renderChildren(
+    containerEl: HTMLElement,
+    node: TrieNode<KeyMap[]>,
+    prefix: KeyPress[],
+  ): void {
+    const children = [...node.children.values()].map((child) => {
+      const [first] = flatten(child.leafValues());
+      return { child, sequence: [...prefix, first.sequence[prefix.length]] };
+    });
+    children.sort((left, right) =>
+      left.sequence[prefix.length]
+        .text()
+        .localeCompare(right.sequence[prefix.length].text()),
+    );
+
+    for (const { child, sequence } of children) {
+      if (child.isLeaf()) {
+        for (const keymap of child.value) {
+          this.renderKeymap(containerEl, keymap, sequence);
+        }
+        continue;
+      }
+
+      const key = sequenceKey(sequence);
+      const detailsEl = containerEl.createEl('details');
+      detailsEl.addClass('leader-hotkeys-tree-prefix');
+      detailsEl.open = this.expanded.has(key) || prefix.length === 0;
+      detailsEl.addEventListener('toggle', () => {
+        if (detailsEl.open) {
+          this.expanded.add(key);
+        } else {
+          this.expanded.delete(key);
+        }
+      });
+
+      const summaryEl = detailsEl.createEl('summary');
+      summaryEl.append(...sequence.map(kbd));
+      summaryEl.createSpan({
+        cls: 'leader-hotkeys-tree-count',
+        text: `${flatten(child.leafValues()).length} keymaps`,
+      });
+      const addEl = summaryEl.createEl('button', { text: 'Add' });
+      addEl.addEventListener('click', (event) => {
+        event.preventDefault();
+        this.addUnder(sequence);
+      });
+      this.makeDraggable(summaryEl, sequence);
+      this.makeDropTarget(summaryEl, sequence);
+
+      const childrenEl = detailsEl.createDiv('leader-hotkeys-tree-children');
+      for (const keymap of child.value || []) {
+        this.renderKeymap(childrenEl, keymap, sequence);
+      }
+      this.renderChildren(childrenEl, child, sequence);
+    }
+  }
+
+  private renderKeymap(
+    containerEl: HTMLElement,
+    keymap: KeyMap,
+    sequence: KeyPress[],
+  ): void {
+    const keymapEl = containerEl.createDiv('leader-hotkeys-tree-keymap');
+    keymapEl.append(...sequence.map(kbd));
+    keymapEl.createSpan({ text: keymapName(this.parent.app, keymap) });
+    if (keymap.context) {
+      keymapEl.createSpan({
+        cls: 'leader-hotkeys-setting-context',
+        text: contextText(keymap.context),
+      });
+    }
+    keymapEl.addEventListener('click', () => {
+      this.parent.refreshCommands();
+      const positionId = this.parent.keymaps().indexOf(keymap);
+      new ChainModal(this.parent, positionId, keymap).open();
+    });
+    this.makeDraggable(keymapEl, sequence);
+  }
+
+  private addUnder(prefix: KeyPress[]): void {
+    this.parent.refreshCommands();
+    new CommandSuggestModal(this.parent, (command) => {
+      new RecordingModal(
+        this.parent,
+        KeyMap.forCommand(command.id, []),
+        null,
+        prefix,
+      ).open();
+    }).open();
+  }
+
+  private makeDraggable(el: HTMLElement, sequence: KeyPress[]): void {
+    el.draggable = true;
+    el.addEventListener('dragstart', (event) => {
+      event.stopPropagation();
+      this.dragged = sequence;
+      event.dataTransfer.setData('text/plain', sequenceNotation(sequence));
+    });
+    el.addEventListener('dragend', () => {
+      this.dragged = null;
+    });
+  }
+
+  private makeDropTarget(el: HTMLElement, prefix: KeyPress[]): void {
+    const accepts = (): boolean =>
+      !!this.dragged && canMoveUnder(this.dragged, prefix);
+    el.addEventListener('dragover', (event) => {
+      if (accepts()) {
+        event.preventDefault();
+        el.addClass('is-drop-target');
+      }
+    });
+    el.addEventListener('dragleave', () => {
+      el.removeClass('is-drop-target');
+    });
+    el.addEventListener('drop', (event) => {
+      el.removeClass('is-drop-target');
+      if (accepts()) {
+        event.preventDefault();
+        this.parent.moveKeymaps(this.dragged, prefix);
+      }
+      this.dragged = null;
+    });
+  }
+}
+
+class KeymapTreeView extends ItemView {
+  private readonly parent: LeaderSettingsTab;
+  private readonly tree: KeymapTree;
+
+  public constructor(leaf: WorkspaceLeaf, parent: LeaderSettingsTab) {
+    super(leaf);
+    this.parent = parent;
+    this.tree = new KeymapTree(parent);
+  }
+
+  public getViewType(): string {
+    return treeViewType;
+  }
+
+  public getDisplayText(): string {
+    return 'Leader keymaps';
+  }
+
+  public getIcon(): string {
+    return 'bullet-list';
+  }
+
+  public async onOpen(): Promise<void> {
+    this.refresh();
+  }
+
+  public refresh(): void {
+    this.tree.render(this.contentEl, this.parent.keymaps());
+  }
+}
+
 // endregion
 
 class LeaderSettingsTab extends PluginSettingTab {
   public commands: ObsidianCommand[];
   private readonly plugin: LeaderHotkeys;
+  private query = '';
+  private sortOrder = SortOrder.Settings;
+  private grouping = Grouping.None;
+  private list: VirtualList<ListRow>;
+  private treeEl: HTMLElement;
+  private tree: KeymapTree;
+  private countEl: HTMLElement;
 
   constructor(plugin: LeaderHotkeys) {
     super(plugin.app, plugin);
@@ -810,37 +1919,177 @@ class LeaderSettingsTab extends PluginSettingTab {
     containerEl.empty();
     containerEl.createEl('h2', { text: 'Leader Hotkeys Plugin - Settings' });
 
-    containerEl.createEl('h3', { text: 'Existing Hotkeys' });
-    for (let i = 0; i < this.currentKeymaps().length; i++) {
-      this.displayExisting(i);
-    }
+    this.displayTimeouts();
 
-    new Setting(containerEl).addButton((button) => {
-      button.setButtonText('New Keymap').onClick(() => {
-        new CommandModal(this).open();
-      });
+    containerEl.createEl('h3', { text: 'Existing Hotkeys' });
+    this.displayStale();
+    // Editing a keymap redraws the tab, which should not lose the place.
+    const scrollTop = this.list ? this.list.scrollTop() : 0;
+    this.displayListOptions();
+    this.list = new VirtualList(containerEl, (row, rowEl) => {
+      if (row.heading !== undefined) {
+        rowEl.createEl('h4', {
+          cls: 'leader-hotkeys-list-heading',
+          text: row.heading,
+        });
+        return;
+      }
+      this.displayExisting(row.positionId, rowEl);
     });
+    this.treeEl = containerEl.createDiv();
+    this.tree = this.tree || new KeymapTree(this);
+    this.refreshList();
+    this.list.scrollTo(scrollTop);
+
+    new Setting(containerEl)
+      .addButton((button) => {
+        button.setButtonText('New Keymap').onClick(() => {
+          new CommandModal(this).open();
+        });
+      })
+      .addButton((button) => {
+        button.setButtonText('Import').onClick(() => {
+          new ImportModal(this).open();
+        });
+      })
+      .addButton((button) => {
+        button.setButtonText('Export').onClick(() => {
+          new ExportModal(this).open();
+        });
+      });
   }
 
   public refreshCommands(): void {
     this.commands = listCommands(this.app);
   }
 
-  public conflicts(keyPresses: KeyPress[]): KeyMap[] {
-    // todo validate properly
-    return this.plugin.findMatchingKeymaps(keyPresses) || [];
+  public conflicts(
+    keyPresses: KeyPress[],
+    ignoring?: KeyMap,
+    context?: KeyMapContext,
+  ): ConflictReport {
+    // Keymaps in other contexts never compete: the most specific one wins.
+    const scope = contextKey(context);
+    const matchBy = this.currentSettings().matchBy;
+    // Later keymaps win over earlier ones matching the same keys.
+    const others = new Map<string, KeyMap>();
+    for (const keymap of this.currentKeymaps()) {
+      if (keymap !== ignoring && contextKey(keymap.context) === scope) {
+        others.set(bindingKey(keymap, matchBy), keymap);
+      }
+    }
+    const trie = Trie.from([...others.values()], (keymap) =>
+      keymapHashes(keymap, matchBy),
+    );
+    const node = trie.bestMatch(keyPresses);
+    const below = node ? node.leafValues() : [];
+    const exact = node && node.hasValue() ? node.value : null;
+
+    return {
+      duplicates: exact ? [exact] : [],
+      extensions: below.filter((keymap) => keymap !== exact),
+      prefixes: trie.prefixValues(keyPresses),
+      nativeCommands:
+        keyPresses.length >= 1
+          ? nativeCommandsFor(this.app, keyPresses[0])
+          : [],
+    };
   }
 
   public obsidianCommands(): ObsidianCommand[] {
+    // The keymap tree can open dialogs before the tab was ever displayed.
+    if (!this.commands || this.commands.length === 0) {
+      this.refreshCommands();
+    }
     return this.commands;
   }
 
-  public addKeymap(keymap: KeyMap): void {
+  public keymaps(): readonly KeyMap[] {
+    return this.currentKeymaps();
+  }
+
+  public keyMatching(): KeyMatching {
+    return this.currentSettings().matchBy;
+  }
+
+  public recordedPress(event: KeyboardEvent): KeyPress {
+    const press = KeyPress.fromEvent(event);
+    return this.currentSettings().recordMod ? press.withMod() : press;
+  }
+
+  public importKeymaps(keymaps: KeyMap[], mode: ImportMode): void {
+    writeConsole(`Importing ${keymaps.length} keymaps.`);
+    if (mode === ImportMode.Replace) {
+      this.saveKeymap(keymaps);
+      return;
+    }
+
+    this.saveKeymap(
+      mergeKeymaps(
+        this.currentKeymaps(),
+        keymaps,
+        this.currentSettings().matchBy,
+      ),
+    );
+  }
+
+  public addKeymap(
+    keymap: KeyMap,
+    replacing?: KeyMap,
+    removed: KeyMap[] = [],
+  ): void {
     writeConsole(`Adding keymap: ${keymap.text()}`);
 
-    const newHotkeys = [...this.currentKeymaps()].concat(keymap);
+    const currentHotkeys = this.currentKeymaps();
+    const newHotkeys = currentHotkeys
+      .map((existing) => (existing === replacing ? keymap : existing))
+      .filter((existing) => !removed.includes(existing));
+    if (!currentHotkeys.includes(replacing)) {
+      newHotkeys.push(keymap);
+    }
 
     this.saveKeymap(newHotkeys);
+
+    const sequenceRepr = keymap.sequence.map((key) => key.text()).join(' => ');
+    createNotice(`${keymapName(this.app, keymap)}
+           can now be invoked by ${sequenceRepr}`);
+  }
+
+  // Moves the keymaps starting with a sequence under another prefix, keeping
+  // the last key of the sequence.
+  public moveKeymaps(from: KeyPress[], under: KeyPress[]): void {
+    const target = [...under, from[from.length - 1]];
+    const keymaps = this.currentKeymaps().map((keymap) =>
+      startsWith(keymap.sequence, from)
+        ? new KeyMap(
+            keymap.actions,
+            [...target, ...keymap.sequence.slice(from.length)],
+            keymap.context,
+            keymap,
+          )
+        : keymap,
+    );
+
+    const seen = new Set<string>();
+    for (const keymap of keymaps) {
+      const key = bindingKey(keymap, this.currentSettings().matchBy);
+      if (seen.has(key)) {
+        createNotice(`Cannot move there, ${keymap.text()} already exists.`);
+        return;
+      }
+      seen.add(key);
+    }
+
+    writeConsole(`Moving keymaps under ${sequenceKey(from)}.`);
+    this.saveKeymap(keymaps);
+    this.display();
+  }
+
+  public removeKeymaps(removed: KeyMap[]): void {
+    writeConsole(`Removing ${removed.length} keymaps.`);
+    this.saveKeymap(
+      this.currentKeymaps().filter((keymap) => !removed.includes(keymap)),
+    );
   }
 
   public removeKeymap(positionId: number): void {
@@ -869,23 +2118,398 @@ class LeaderSettingsTab extends PluginSettingTab {
     this.plugin.persistKeymaps(keymaps);
   }
 
-  private displayExisting(positionId: number): void {
+  private displayTimeouts(): void {
     const containerEl = this.containerEl;
+    const settings = this.currentSettings();
+
+    new Setting(containerEl)
+      .setName('Sequence timeout')
+      .setDesc(
+        'Milliseconds to wait for the next key before an unfinished sequence is abandoned. 0 waits forever. Escape always cancels.',
+      )
+      .addText((text) => {
+        text.inputEl.type = 'number';
+        text.setValue(String(settings.timeout)).onChange((value) => {
+          settings.timeout = parseTimeout(value);
+          this.plugin.persistSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Show key sequences')
+      .setDesc(
+        'Show the keys of a sequence in progress in the status bar, then the commands it ran or that it did not match. On mobile this appears at the bottom of the screen.',
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(settings.showSequence).onChange((value) => {
+          settings.showSequence = value;
+          this.plugin.persistSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Layer timeout')
+      .setDesc(
+        'Milliseconds without a key press before entered layers are left. 0 stays in them until Escape.',
+      )
+      .addText((text) => {
+        text.inputEl.type = 'number';
+        text.setValue(String(settings.layerTimeout)).onChange((value) => {
+          settings.layerTimeout = parseTimeout(value);
+          this.plugin.persistSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Repeat timeout')
+      .setDesc(
+        'Milliseconds during which the keys of repeatable keymaps can be pressed again without their prefix. 0 turns repeating off.',
+      )
+      .addText((text) => {
+        text.inputEl.type = 'number';
+        text.setValue(String(settings.repeatTimeout)).onChange((value) => {
+          settings.repeatTimeout = parseTimeout(value);
+          this.plugin.persistSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Match keys by')
+      .setDesc(
+        'Character typed, or physical key so that keymaps work the same on every keyboard layout. Keymaps can also choose for themselves.',
+      )
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('key', 'Character typed')
+          .addOption('code', 'Physical key')
+          .setValue(settings.matchBy)
+          .onChange((value) => {
+            settings.matchBy = value as KeyMatching;
+            this.plugin.persistSettings();
+            this.plugin.persistKeymaps(settings.hotkeys);
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Record Ctrl as Mod')
+      .setDesc(
+        'Record Ctrl (Cmd on macOS) as Mod, like Obsidian does, so that recorded keymaps use Ctrl on Windows and Linux and Cmd on macOS.',
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(settings.recordMod).onChange((value) => {
+          settings.recordMod = value;
+          this.plugin.persistSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Keymap file')
+      .setDesc(
+        'Path of a vault file with more keymaps, one per line as in the export format. In markdown notes only fenced code blocks are read. These keymaps take precedence over the ones below and are reloaded when the file changes.',
+      )
+      .addText((text) => {
+        // Reloaded once typing pauses, not for every partial path.
+        const reload = debounce(
+          () => {
+            this.plugin.reloadKeymapFile().catch(() => {
+              createNotice('Error while reading the keymap file.');
+            });
+          },
+          1000,
+          true,
+        );
+        text
+          .setPlaceholder('leader-hotkeys.md')
+          .setValue(settings.keymapFile)
+          .onChange((value) => {
+            settings.keymapFile = value.trim();
+            this.plugin.persistSettings();
+            reload();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Cheat sheet')
+      .setDesc(
+        'Path of the note listing every keymap, written by the "Generate cheat sheet" command.',
+      )
+      .addText((text) => {
+        text
+          .setPlaceholder(defaultSettings.cheatSheetFile)
+          .setValue(settings.cheatSheetFile)
+          .onChange((value) => {
+            settings.cheatSheetFile =
+              value.trim() || defaultSettings.cheatSheetFile;
+            this.plugin.persistSettings();
+          });
+      })
+      .addButton((button) => {
+        button.setButtonText('Generate').onClick(() => {
+          this.plugin.writeCheatSheet().catch(() => {
+            createNotice('Error while writing the cheat sheet.');
+          });
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Keep the cheat sheet updated')
+      .setDesc(
+        'Rewrite the cheat sheet whenever keymaps change, as long as the note exists.',
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(settings.updateCheatSheet).onChange((value) => {
+          settings.updateCheatSheet = value;
+          this.plugin.persistSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Replay unmatched keys')
+      .setDesc(
+        'When a sequence does not match any keymap, type the swallowed keys into the focused editor or input. Keys pressed with Ctrl, Alt or Meta cannot be replayed.',
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(settings.replayUnmatched).onChange((value) => {
+          settings.replayUnmatched = value;
+          this.plugin.persistSettings();
+        });
+      });
+
+    settings.prefixTimeouts.forEach((override, positionId) => {
+      const setting = new Setting(containerEl).setDesc('Timeout after ');
+      setting.descEl.append(...override.sequence.map(kbd));
+      setting.addText((text) => {
+        text.inputEl.type = 'number';
+        text.setValue(String(override.timeout)).onChange((value) => {
+          override.timeout = parseTimeout(value);
+          this.plugin.persistSettings();
+        });
+      });
+      setting.addExtraButton((button) => {
+        button.setIcon('cross').setTooltip('Delete override');
+        button.onClick(() => {
+          settings.prefixTimeouts.splice(positionId, 1);
+          this.plugin.persistSettings();
+          this.display();
+        });
+      });
+    });
+
+    const overridden = new Set(
+      settings.prefixTimeouts.map((override) => sequenceKey(override.sequence)),
+    );
+    const candidates = new Map<string, KeyPress[]>();
+    for (const keymap of this.currentKeymaps()) {
+      for (let i = 1; i < keymap.sequence.length; i++) {
+        const prefix = keymap.sequence.slice(0, i);
+        const key = sequenceKey(prefix);
+        if (!overridden.has(key)) {
+          candidates.set(key, prefix);
+        }
+      }
+    }
+    if (candidates.size === 0) {
+      return;
+    }
+
+    new Setting(containerEl)
+      .setName('Override timeout for a prefix')
+      .addDropdown((dropdown) => {
+        dropdown.addOption('', 'Select a prefix');
+        candidates.forEach((prefix, key) => {
+          dropdown.addOption(
+            key,
+            prefix.map((press) => press.text()).join(' => '),
+          );
+        });
+        dropdown.onChange((key) => {
+          const prefix = candidates.get(key);
+          if (!prefix) {
+            return;
+          }
+          settings.prefixTimeouts.push(
+            new PrefixTimeout(prefix, settings.timeout),
+          );
+          this.plugin.persistSettings();
+          this.display();
+        });
+      });
+  }
+
+  private displayStale(): void {
+    const known = new Set(this.commands.map((command) => command.id));
+    const stale = this.currentKeymaps().filter(
+      (keymap) => staleCommandIDs(keymap, known).length >= 1,
+    );
+    if (stale.length === 0) {
+      return;
+    }
+
+    new Setting(this.containerEl)
+      .setName(`${stale.length} keymaps run unavailable commands`)
+      .setDesc('Their plugins may be disabled or uninstalled.')
+      .addButton((button) => {
+        button.setButtonText('Clean up').onClick(() => {
+          new StaleModal(this).open();
+        });
+      })
+      .settingEl.addClass('leader-hotkeys-stale');
+  }
+
+  private displayListOptions(): void {
+    new Setting(this.containerEl)
+      .addSearch((search) => {
+        search
+          .setPlaceholder('Filter by command or keys')
+          .setValue(this.query)
+          .onChange((value) => {
+            this.query = value;
+            this.refreshList();
+          });
+      })
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption(String(SortOrder.Settings), 'In order of creation')
+          .addOption(String(SortOrder.Keys), 'Sorted by keys')
+          .addOption(String(SortOrder.Name), 'Sorted by command')
+          .setValue(String(this.sortOrder))
+          .onChange((value) => {
+            this.sortOrder = parseInt(value, 10);
+            this.refreshList();
+          });
+      })
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption(String(Grouping.None), 'Not grouped')
+          .addOption(String(Grouping.FirstKey), 'Grouped by first key')
+          .addOption(String(Grouping.Prefix), 'Grouped by prefix')
+          .addOption(String(Grouping.Tree), 'As a tree of prefixes')
+          .setValue(String(this.grouping))
+          .onChange((value) => {
+            this.grouping = parseInt(value, 10);
+            this.refreshList();
+          });
+      })
+      .then((setting) => {
+        this.countEl = setting.nameEl;
+      });
+  }
+
+  private refreshList(): void {
+    const keymaps = this.currentKeymaps();
+    const terms = this.query
+      .toLowerCase()
+      .split(/\s+/)
+      .filter((term) => term);
+    const positionIds = keymaps
+      .map((_, positionId) => positionId)
+      .filter((positionId) => {
+        const text = keymapSearchText(this.app, keymaps[positionId]);
+        return terms.every((term) => text.includes(term));
+      });
+
+    const names = new Map<number, string>();
+    const sortKey = (positionId: number): string => {
+      if (!names.has(positionId)) {
+        const keymap = keymaps[positionId];
+        names.set(
+          positionId,
+          this.sortOrder === SortOrder.Name
+            ? keymapName(this.app, keymap)
+            : sequenceNotation(keymap.sequence),
+        );
+      }
+      return names.get(positionId);
+    };
+    if (this.sortOrder !== SortOrder.Settings) {
+      positionIds.sort((left, right) =>
+        sortKey(left).localeCompare(sortKey(right)),
+      );
+    }
+
+    this.countEl.setText(`${positionIds.length} of ${keymaps.length} keymaps`);
+    if (this.grouping === Grouping.Tree) {
+      this.list.setItems([]);
+      this.tree.render(
+        this.treeEl,
+        positionIds.map((positionId) => keymaps[positionId]),
+      );
+      return;
+    }
+    this.treeEl.empty();
+
+    let rows: ListRow[] = positionIds.map((positionId) => ({ positionId }));
+    if (this.grouping !== Grouping.None) {
+      const groups = new Map<string, ListRow[]>();
+      for (const row of rows) {
+        const sequence = keymaps[row.positionId].sequence;
+        const prefix =
+          this.grouping === Grouping.FirstKey
+            ? sequence.slice(0, 1)
+            : sequence.slice(0, -1);
+        const heading =
+          prefix.map((press) => press.text()).join(' => ') || 'No prefix';
+        if (!groups.has(heading)) {
+          groups.set(heading, []);
+        }
+        groups.get(heading).push(row);
+      }
+      rows = [];
+      for (const heading of [...groups.keys()].sort()) {
+        rows.push({ heading }, ...groups.get(heading));
+      }
+    }
+
+    this.list.setItems(rows);
+  }
+
+  private displayExisting(positionId: number, containerEl: HTMLElement): void {
     const thisKeymap = this.currentKeymaps()[positionId];
 
     const setting = new Setting(containerEl);
-    setting.addDropdown((dropdown) => {
-      for (const command of this.commands) {
-        dropdown.addOption(command.id, command.name);
-      }
-      dropdown.onChange((newCommand) => {
-        const newKeyMap = KeyMap.of(thisKeymap);
-        newKeyMap.commandID = newCommand;
-        this.updateKeymap(positionId, newKeyMap);
+    const known = new Set(this.commands.map((command) => command.id));
+    const stale = staleCommandIDs(thisKeymap, known);
+    if (stale.length >= 1) {
+      setting.settingEl.addClass('leader-hotkeys-stale');
+      setting.settingEl.title = `Unavailable: ${stale.join(', ')}`;
+    }
+    if (thisKeymap.actions.length === 1 && isCommand(thisKeymap.actions[0])) {
+      // A single picker is shared by all rows, as a dropdown of every
+      // command in each of them is slow with many keymaps.
+      setting.addButton((button) => {
+        button.setButtonText(keymapName(this.app, thisKeymap)).onClick(() => {
+          new CommandSuggestModal(this, (command) => {
+            const newKeyMap = KeyMap.of(thisKeymap);
+            newKeyMap.actions[0].commandID = command.id;
+            this.updateKeymap(positionId, newKeyMap);
+            this.display();
+          }).open();
+        });
+        button.buttonEl.addClass('leader-hotkeys-command');
+      });
+    } else {
+      setting.addButton((button) => {
+        button.setButtonText(keymapName(this.app, thisKeymap)).onClick(() => {
+          new ChainModal(this, positionId, thisKeymap).open();
+        });
+        button.buttonEl.addClass('leader-hotkeys-command');
       });
-
-      dropdown.setValue(thisKeymap.commandID);
-      dropdown.selectEl.addClass('leader-hotkeys-command');
+    }
+    setting.addExtraButton((button) => {
+      button
+        .setIcon('pencil')
+        .setTooltip('Edit the actions to run')
+        .onClick(() => {
+          new ChainModal(this, positionId, thisKeymap).open();
+        });
+    });
+    setting.addExtraButton((button) => {
+      button
+        .setIcon('gear')
+        .setTooltip('Choose where this shortcut applies')
+        .onClick(() => {
+          new ContextModal(this, positionId, thisKeymap).open();
+        });
     });
     setting.addExtraButton((button) => {
       button
@@ -904,11 +2528,11 @@ class LeaderSettingsTab extends PluginSettingTab {
     const keySetter = document.createElement('div');
     keySetter.addClass('setting-hotkey');
 
-    const kbds = thisKeymap.sequence.map((press) => press.kbd());
+    const kbds = thisKeymap.sequence.map(kbd);
     keySetter.append(...kbds);
 
     keySetter.addEventListener('click', (_: Event) =>
-      new RecordingModal(this, thisKeymap.commandID).open(),
+      new RecordingModal(this, thisKeymap, thisKeymap).open(),
     );
 
     settingControl.insertBefore(keySetter, settingControl.children[0]);
@@ -917,6 +2541,13 @@ class LeaderSettingsTab extends PluginSettingTab {
     appendText.addClass('leader-hotkeys-setting-append-text');
     appendText.setText('to');
     settingControl.insertBefore(appendText, settingControl.children[1]);
+
+    if (thisKeymap.context) {
+      const contextEl = document.createElement('span');
+      contextEl.addClass('leader-hotkeys-setting-context');
+      contextEl.setText(contextText(thisKeymap.context));
+      settingControl.insertBefore(contextEl, settingControl.children[1]);
+    }
   }
 
   private currentSettings(): KeyBinding {
@@ -930,12 +2561,18 @@ class LeaderSettingsTab extends PluginSettingTab {
 
 export default class LeaderHotkeys extends Plugin {
   public settings: KeyBinding;
+  public indicator: StatusIndicator;
+  // The count typed for the running keymap, for commands which opt in.
+  public count = 1;
   private settingsTab: LeaderSettingsTab;
   private matchHandler: MatchHandler;
+  private fileKeymaps: KeyMap[] = [];
 
   public async onload(): Promise<void> {
     writeConsole('Started Loading.');
+    platform.isMacOS = Platform.isMacOS;
 
+    this.indicator = new StatusIndicator(this, this.createIndicatorEl());
     await this.loadSavedSettings();
     await this.registerEventsAndCallbacks();
 
@@ -943,36 +2580,317 @@ export default class LeaderHotkeys extends Plugin {
     this.addSettingTab(this.settingsTab);
     writeConsole('Registered Setting Tab.');
 
+    this.registerView(
+      treeViewType,
+      (leaf) => new KeymapTreeView(leaf, this.settingsTab),
+    );
+    this.addCommand({
+      id: 'show-keymap-tree',
+      name: 'Show keymap tree',
+      callback: () => {
+        this.showKeymapTree().catch(() => {
+          createNotice('Error while opening the keymap tree.');
+        });
+      },
+    });
+    writeConsole('Registered keymap tree view.');
+
     writeConsole('Finished Loading.');
   }
 
   public onunload(): void {
     writeConsole('Unloading plugin.');
+    this.matchHandler.dispose();
+    this.indicator.dispose();
+    this.app.workspace.detachLeavesOfType(treeViewType);
   }
 
-  public invokeCommand(commandID: string): void {
+  // Returns whether the command could run.
+  public invokeCommand(commandID: string): boolean {
     if (commandID) {
-      // todo remove any typing
-      const app = this.app as any;
-      app.commands.executeCommandById(commandID);
+      const app = this.app as AppWithCommands;
+      if (!app.commands.commands[commandID]) {
+        createNotice(
+          `${commandID} is unavailable, its plugin may be disabled. It can be remapped in the Leader Hotkeys settings.`,
+        );
+        return false;
+      }
+      return app.commands.executeCommandById(commandID);
     }
+    return false;
   }
 
+  public readonly runKeymap = async (
+    keymap: KeyMap,
+    count = 1,
+  ): Promise<void> => {
+    const repeats = keymap.passCount ? 1 : count;
+    this.count = count;
+    try {
+      for (let i = 0; i < repeats; i++) {
+        if (!(await this.runActions(keymap))) {
+          return;
+        }
+      }
+    } finally {
+      this.count = 1;
+    }
+  };
+
   public findMatchingKeymaps(presses: KeyPress[]): KeyMap[] {
     return this.matchHandler.findMatchingKeymaps(presses);
   }
 
+  public replayKeyPresses(presses: readonly KeyPress[]): void {
+    const text = presses.map((press) => press.typedText()).join('');
+    if (!text) {
+      return;
+    }
+    writeConsole(`Replaying unmatched keys: ${JSON.stringify(text)}`);
+
+    const focused = document.activeElement;
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (
+      view &&
+      view.getMode() === 'source' &&
+      (!focused || view.containerEl.contains(focused))
+    ) {
+      view.editor.replaceSelection(text);
+      return;
+    }
+
+    if (
+      focused instanceof HTMLInputElement ||
+      focused instanceof HTMLTextAreaElement
+    ) {
+      focused.setRangeText(
+        text,
+        focused.selectionStart,
+        focused.selectionEnd,
+        'end',
+      );
+      focused.dispatchEvent(new Event('input', { bubbles: true }));
+    }
+  }
+
+  public currentContext(): ActiveContext {
+    const leaf = this.app.workspace.activeLeaf;
+    const view = leaf ? leaf.view : null;
+    const file = this.app.workspace.getActiveFile();
+
+    let mode: Optional<EditorMode> = null;
+    if (view instanceof MarkdownView) {
+      if (view.getMode() === 'preview') {
+        mode = 'reading';
+      } else {
+        mode = view.getState().source === false ? 'live-preview' : 'source';
+      }
+    }
+
+    const cache = file ? this.app.metadataCache.getFileCache(file) : null;
+    const tags = cache ? parseFrontMatterTags(cache.frontmatter) || [] : [];
+
+    return {
+      viewType: view ? view.getViewType() : null,
+      mode,
+      path: file ? file.path : null,
+      tags: tags.map((tag) => tag.replace(/^#/, '')),
+      layer: null,
+    };
+  }
+
+  // Keymaps from the settings, overridden by those from the keymap file.
+  public activeKeymaps(): KeyMap[] {
+    return mergeKeymaps(
+      this.settings.hotkeys,
+      this.fileKeymaps,
+      this.settings.matchBy,
+    );
+  }
+
+  public readonly reloadKeymapFile = async (): Promise<void> => {
+    const path = this.settings.keymapFile;
+    const file = path
+      ? this.app.vault.getAbstractFileByPath(normalizePath(path))
+      : null;
+
+    if (file instanceof TFile) {
+      const content = await this.app.vault.read(file);
+      const result = parseKeymaps(
+        file.extension === 'md' ? fencedCode(content) : content,
+        this.settings.matchBy,
+      );
+      result.issues.forEach((issue) => writeConsole(`${path}: ${issue}`));
+      if (result.issues.length >= 1) {
+        createNotice(
+          `${result.issues.length} issues in ${path}, see the developer console.`,
+        );
+      }
+      this.fileKeymaps = result.keymaps;
+      writeConsole(`Loaded ${result.keymaps.length} keymaps from ${path}.`);
+    } else {
+      if (path) {
+        writeConsole(`Keymap file ${path} does not exist.`);
+      }
+      this.fileKeymaps = [];
+    }
+
+    this.matchHandler.setKeymap(this.activeKeymaps());
+    await this.refreshCheatSheet();
+  };
+
+  public readonly writeCheatSheet = async (): Promise<TFile> => {
+    const path = normalizePath(this.settings.cheatSheetFile);
+    const content = cheatSheet(this.app, this.activeKeymaps());
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, content);
+      return existing;
+    }
+    return this.app.vault.create(path, content);
+  };
+
   public persistKeymaps(newKeymaps: KeyMap[]): void {
     this.settings.hotkeys = newKeymaps;
+    for (const leaf of this.app.workspace.getLeavesOfType(treeViewType)) {
+      if (leaf.view instanceof KeymapTreeView) {
+        leaf.view.refresh();
+      }
+    }
     this.saveData(this.settings)
       .then(() => {
-        this.matchHandler.setKeymap(newKeymaps);
+        this.matchHandler.setKeymap(this.activeKeymaps());
+        return this.refreshCheatSheet();
       })
       .catch(() => {
         createNotice('Error while Saving Keymaps.');
       });
   }
 
+  public persistSettings(): void {
+    this.saveData(this.settings).catch(() => {
+      createNotice('Error while Saving Settings.');
+    });
+  }
+
+  // A deleted cheat sheet stays deleted, and the keymap file is never
+  // overwritten.
+  private readonly refreshCheatSheet = async (): Promise<void> => {
+    const path = normalizePath(this.settings.cheatSheetFile);
+    if (
+      !this.settings.updateCheatSheet ||
+      path === normalizePath(this.settings.keymapFile || '') ||
+      !(this.app.vault.getAbstractFileByPath(path) instanceof TFile)
+    ) {
+      return;
+    }
+    await this.writeCheatSheet();
+  };
+
+  private readonly showKeymapTree = async (): Promise<void> => {
+    const workspace = this.app.workspace;
+    let [leaf] = workspace.getLeavesOfType(treeViewType);
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      await leaf.setViewState({ type: treeViewType });
+    }
+    workspace.revealLeaf(leaf);
+  };
+
+  private readonly createIndicatorEl = (): HTMLElement => {
+    if (!Platform.isMobile) {
+      return this.addStatusBarItem();
+    }
+    const indicatorEl = document.body.createDiv(
+      'leader-hotkeys-indicator-floating',
+    );
+    this.register(() => indicatorEl.remove());
+    return indicatorEl;
+  };
+
+  // Returns whether the keymap should keep running.
+  private readonly runActions = async (keymap: KeyMap): Promise<boolean> => {
+    for (const action of keymap.actions) {
+      if (action.delay > 0) {
+        await wait(action.delay);
+      }
+
+      const succeeded = await this.runAction(action);
+      if (!succeeded && !keymap.continueOnFailure) {
+        if (keymap.actions.length > 1) {
+          createNotice(
+            `Stopped at ${actionName(this.app, action)}, which could not run.`,
+          );
+        }
+        return false;
+      }
+    }
+    return true;
+  };
+
+  private readonly runAction = async (action: KeyAction): Promise<boolean> => {
+    switch (action.kind) {
+      case 'snippet':
+        return this.insertSnippet(action.text);
+      case 'file':
+        return this.openLink(action.link, action.pane);
+      case 'uri':
+        window.open(action.uri);
+        return true;
+      case 'layer':
+        this.matchHandler.enterLayer(action.layer);
+        return true;
+      default:
+        return this.invokeCommand(action.commandID);
+    }
+  };
+
+  private readonly openLink = async (
+    link: string,
+    pane: Optional<PaneKind>,
+  ): Promise<boolean> => {
+    const workspace = this.app.workspace;
+    const activeFile = workspace.getActiveFile();
+    const sourcePath = activeFile ? activeFile.path : '';
+    const [linkpath] = link.split('#');
+    if (
+      linkpath &&
+      !this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath)
+    ) {
+      return false;
+    }
+
+    if (pane === 'split-right' || pane === 'split-down') {
+      const direction = pane === 'split-right' ? 'vertical' : 'horizontal';
+      workspace.setActiveLeaf(workspace.splitActiveLeaf(direction));
+    }
+    await workspace.openLinkText(link, sourcePath, pane === 'new');
+    return true;
+  };
+
+  // Only source mode has an editor to insert into.
+  private readonly insertSnippet = async (
+    snippet: string,
+  ): Promise<boolean> => {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (!view || view.getMode() !== 'source') {
+      return false;
+    }
+
+    const editor = view.editor;
+    const clipboard = snippet.includes('{{clipboard}}')
+      ? await navigator.clipboard.readText().catch(() => '')
+      : '';
+    const text = expandSnippet(snippet, editor.getSelection(), clipboard);
+    const start = editor.posToOffset(editor.getCursor('from'));
+    const cursor = text.indexOf(cursorPlaceholder);
+    editor.replaceSelection(text.split(cursorPlaceholder).join(''));
+    if (cursor >= 0) {
+      editor.setCursor(editor.offsetToPos(start + cursor));
+    }
+    return true;
+  };
+
   private readonly registerEventsAndCallbacks = async (): Promise<void> => {
     writeConsole('Registering necessary event callbacks');
 
@@ -994,60 +2912,749 @@ export default class LeaderHotkeys extends Plugin {
     };
     this.addCommand(openModalCommand);
     writeConsole('Registered open modal command');
+
+    this.addCommand({
+      id: 'generate-cheat-sheet',
+      name: 'Generate cheat sheet',
+      callback: () => {
+        this.writeCheatSheet()
+          .then((file) => this.app.workspace.getLeaf(false).openFile(file))
+          .catch(() => {
+            createNotice('Error while writing the cheat sheet.');
+          });
+      },
+    });
+    this.addCommand({
+      id: 'clean-up-keymaps',
+      name: 'Clean up keymaps of unavailable commands',
+      callback: () => {
+        new StaleModal(this.settingsTab).open();
+      },
+    });
+    this.addCommand({
+      id: 'export-keymaps',
+      name: 'Export keymaps',
+      callback: () => {
+        new ExportModal(this.settingsTab).open();
+      },
+    });
+    this.addCommand({
+      id: 'import-keymaps',
+      name: 'Import keymaps',
+      callback: () => {
+        new ImportModal(this.settingsTab).open();
+      },
+    });
+    writeConsole('Registered import and export commands');
+
+    this.app.workspace.onLayoutReady(() => {
+      const reloadIfWatched = (file: TAbstractFile, oldPath?: string): void => {
+        const watched = normalizePath(this.settings.keymapFile || '');
+        if (watched && (file.path === watched || oldPath === watched)) {
+          this.reloadKeymapFile().catch(() => {
+            createNotice('Error while reading the keymap file.');
+          });
+        }
+      };
+      this.registerEvent(this.app.vault.on('create', reloadIfWatched));
+      this.registerEvent(this.app.vault.on('modify', reloadIfWatched));
+      this.registerEvent(this.app.vault.on('delete', reloadIfWatched));
+      this.registerEvent(this.app.vault.on('rename', reloadIfWatched));
+      this.reloadKeymapFile().catch(() => {
+        createNotice('Error while reading the keymap file.');
+      });
+    });
+    writeConsole('Registered keymap file watcher');
   };
 
   private readonly loadSavedSettings = async (): Promise<void> => {
     writeConsole('Loading previously saved settings.');
 
-    const savedSettings = (await this.loadData()) || {};
+    const loadedData: unknown = await this.loadData();
     try {
-      savedSettings.hotkeys = (savedSettings.hotkeys || []).map(KeyMap.of);
-      this.settings = savedSettings;
+      // Migrations change the data in place, and the backups should hold
+      // what was actually saved.
+      const saved: unknown = JSON.parse(JSON.stringify(loadedData || {}));
+      if (!isObject(saved)) {
+        throw new Error('The saved settings are not an object.');
+      }
+      const migration = migrateSettings(saved, {
+        legacyLeader: this.legacyLeader(),
+      });
+      const savedSettings = migration.data;
+      const hotkeys = parseEntries(
+        Array.isArray(savedSettings.hotkeys) ? savedSettings.hotkeys : [],
+        KeyMap.parse,
+        'Keymap',
+      );
+      const prefixTimeouts = parseEntries(
+        Array.isArray(savedSettings.prefixTimeouts)
+          ? savedSettings.prefixTimeouts
+          : [],
+        PrefixTimeout.parse,
+        'Prefix timeout',
+      );
+      savedSettings.hotkeys = hotkeys.values;
+      savedSettings.prefixTimeouts = prefixTimeouts.values;
+      this.settings = { ...defaultSettings, ...savedSettings };
       writeConsole('Loaded previous settings.');
+
+      if (loadedData && migration.reports.length >= 1) {
+        await this.reportMigration(loadedData, migration);
+      }
+      const issues = [...hotkeys.issues, ...prefixTimeouts.issues];
+      if (issues.length >= 1) {
+        await this.reportRepairs(
+          loadedData,
+          issues,
+          hotkeys.rejected + prefixTimeouts.rejected,
+        );
+      }
     } catch (err) {
       writeConsole('A failure occured while parsing the saved settings.');
       createNotice(
         'A failure occured while loading the saved settings. Fallbacking to defaults.',
       );
-      // todo : Retrocompatibility?
-      //  Harder than i thought since LeaderKey isn't saved here.
-      //  Would need to keep the old command ,
-      //  lookup the binding and convert it to the new one.
+      if (loadedData) {
+        await this.backupData(loadedData, 'unreadable');
+      }
 
       this.settings = defaultSettings;
     }
     this.matchHandler = new MatchHandler(this);
   };
+
+  private readonly reportMigration = async (
+    loadedData: unknown,
+    migration: MigrationResult,
+  ): Promise<void> => {
+    const backup = await this.backupData(
+      loadedData,
+      `v${migration.fromVersion}`,
+    );
+    migration.reports.forEach((report) => writeConsole(report));
+    await this.saveData(this.settings);
+
+    const backupRepr = backup ? ` A backup was saved to ${backup}.` : '';
+    createNotice(
+      `Upgraded the settings from version ${migration.fromVersion} to ${
+        this.settings.version
+      }. ${migration.reports.join(' ')}${backupRepr}`,
+    );
+  };
+
+  // Malformed entries were skipped or repaired one by one, keeping the rest.
+  private readonly reportRepairs = async (
+    loadedData: unknown,
+    issues: string[],
+    rejected: number,
+  ): Promise<void> => {
+    const backup = await this.backupData(loadedData, 'repaired');
+    issues.forEach((issue) => writeConsole(issue));
+    await this.saveData(this.settings);
+
+    const repaired = issues.length - rejected;
+    const backupRepr = backup ? ` A backup was saved to ${backup}.` : '';
+    createNotice(
+      `Skipped ${rejected} and repaired ${repaired} malformed entries of the saved settings, see the console for details.${backupRepr}`,
+    );
+  };
+
+  // Returns the path of the backup, or null when it couldn't be written.
+  private readonly backupData = async (
+    data: unknown,
+    suffix: string,
+  ): Promise<Optional<string>> => {
+    const directory =
+      this.manifest.dir ||
+      `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    const path = normalizePath(`${directory}/data.backup-${suffix}.json`);
+    try {
+      await this.app.vault.adapter.write(path, JSON.stringify(data, null, 2));
+      writeConsole(`Saved a backup of the settings to ${path}.`);
+      return path;
+    } catch (err) {
+      writeConsole(`Could not save a backup of the settings to ${path}.`);
+      return null;
+    }
+  };
+
+  private legacyLeader(): Optional<KeyPress> {
+    const { hotkeyManager } = this.app as AppWithCommands;
+    const commandID = `${this.manifest.id}:leader`;
+    const hotkeys: CustomCommand[] =
+      (hotkeyManager && hotkeyManager.customKeys
+        ? hotkeyManager.customKeys[commandID]
+        : null) || [];
+    return hotkeys.length >= 1 ? KeyPress.fromCustom(hotkeys[0]) : null;
+  }
 }
 
 // region consts and utils
 const listCommands = (app: App): ObsidianCommand[] => {
-  // todo remove any type
-  const anyApp = app as any;
-  const commands = anyApp.commands.commands as CommandMap;
-  return Object.values(commands);
+  return Object.values((app as AppWithCommands).commands.commands);
+};
+const commandName = (app: App, commandID: string): string => {
+  const command = (app as AppWithCommands).commands.commands[commandID];
+  return command ? command.name : commandID;
+};
+const actionKinds: { [kind: string]: string } = {
+  command: 'Command',
+  snippet: 'Insert text',
+  file: 'Open file',
+  uri: 'Open URI',
+  layer: 'Enter layer',
+};
+const isCommand = (action: KeyAction): boolean => {
+  return !action.kind || action.kind === 'command';
+};
+const actionName = (app: App, action: KeyAction): string => {
+  switch (action.kind) {
+    case 'snippet':
+      return `Insert ${JSON.stringify(action.text)}`;
+    case 'file':
+      return `Open ${action.link}`;
+    case 'uri':
+      return `Open ${action.uri}`;
+    case 'layer':
+      return `Enter the ${action.layer} layer`;
+    default:
+      return commandName(app, action.commandID);
+  }
+};
+const keymapName = (app: App, keymap: KeyMap): string => {
+  return keymap.actions
+    .map((action) => actionName(app, action))
+    .join(', then ');
+};
+const nativeCommandsFor = (app: App, press: KeyPress): ObsidianCommand[] => {
+  const { hotkeyManager } = app as AppWithCommands;
+  if (!hotkeyManager) {
+    return [];
+  }
+
+  return listCommands(app).filter((command) => {
+    const hotkeys: CustomCommand[] =
+      hotkeyManager.getHotkeys(command.id) ||
+      hotkeyManager.getDefaultHotkeys(command.id) ||
+      [];
+    return hotkeys.some((hotkey) =>
+      sameChord(KeyPress.fromCustom(hotkey), press),
+    );
+  });
+};
+const sameChord = (left: KeyPress, right: KeyPress): boolean => {
+  // Obsidian stores letters in upper case regardless of Shift.
+  return (
+    left.key.toLowerCase() === right.key.toLowerCase() &&
+    left.shift === right.shift &&
+    left.hasCtrl() === right.hasCtrl() &&
+    left.alt === right.alt &&
+    left.hasMeta() === right.hasMeta()
+  );
+};
+const hasConflicts = (report: ConflictReport): boolean => {
+  return (
+    report.duplicates.length +
+      report.extensions.length +
+      report.prefixes.length +
+      report.nativeCommands.length >=
+    1
+  );
+};
+const knownViewTypes = [
+  'markdown',
+  'canvas',
+  'graph',
+  'localgraph',
+  'pdf',
+  'image',
+  'empty',
+];
+const contextNotation = (context: Optional<KeyMapContext>): string => {
+  if (!context) {
+    return '';
+  }
+  return Object.keys(contextNames)
+    .filter((name) => context[contextNames[name]])
+    .map((name) => {
+      const value = context[contextNames[name]];
+      return `${name}=${/[\s"]/.test(value) ? `"${value}"` : value}`;
+    })
+    .join(' ');
+};
+const contextText = (context: Optional<KeyMapContext>): string => {
+  if (!context) {
+    return '';
+  }
+  const parts = [
+    context.viewType ? `${context.viewType} views` : null,
+    context.mode ? `${context.mode} mode` : null,
+    context.path ? `files matching ${context.path}` : null,
+    context.tag ? `notes tagged #${context.tag}` : null,
+    context.layer ? `the ${context.layer} layer` : null,
+  ];
+  return 'in ' + parts.filter((part) => part).join(', ');
+};
+const contextKey = (context: Optional<KeyMapContext>): string => {
+  return contextNotation(context);
+};
+// Same sequence and context, as the trie tells sequences apart.
+const bindingKey = (keymap: KeyMap, matchBy: KeyMatching): string => {
+  return (
+    keymapHashes(keymap, matchBy).join('\n') +
+    '\n\n' +
+    contextKey(keymap.context)
+  );
+};
+const globToRegExp = (glob: string): RegExp => {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+};
+const contextMatches = (
+  context: Optional<KeyMapContext>,
+  active: ActiveContext,
+): boolean => {
+  // Keymaps outside of layers do not apply within one, and the other way around.
+  const layer = context ? context.layer : null;
+  if ((layer || null) !== active.layer) {
+    return false;
+  }
+  if (!context) {
+    return true;
+  }
+  const tag = context.tag ? context.tag.toLowerCase() : null;
+  return (
+    (!context.viewType || context.viewType === active.viewType) &&
+    (!context.mode || context.mode === active.mode) &&
+    (!context.path ||
+      (!!active.path && globToRegExp(context.path).test(active.path))) &&
+    (!tag ||
+      active.tags.some(
+        (activeTag) =>
+          activeTag.toLowerCase() === tag ||
+          activeTag.toLowerCase().startsWith(tag + '/'),
+      ))
+  );
+};
+// Keymaps applying to the active context, the most specific one for each sequence.
+const scopedKeymaps = (
+  keymaps: readonly KeyMap[],
+  active: ActiveContext,
+  matchBy: KeyMatching,
+): KeyMap[] => {
+  const specificity = (keymap: KeyMap): number =>
+    keymap.context ? Object.keys(keymap.context).length : 0;
+
+  const bySequence = new Map<string, KeyMap>();
+  for (const keymap of keymaps) {
+    if (!contextMatches(keymap.context, active)) {
+      continue;
+    }
+    const key = keymapHashes(keymap, matchBy).join('\n');
+    const existing = bySequence.get(key);
+    if (!existing || specificity(keymap) >= specificity(existing)) {
+      bySequence.set(key, keymap);
+    }
+  }
+  return [...bySequence.values()];
+};
+// Lower-cased text which the search box of the settings matches against.
+const keymapSearchText = (app: App, keymap: KeyMap): string => {
+  return [
+    keymapName(app, keymap),
+    ...keymap.actions.map(actionNotation),
+    ...keymap.sequence.map((press) => press.text()),
+    sequenceNotation(keymap.sequence),
+    contextText(keymap.context),
+  ]
+    .join(' ')
+    .toLowerCase();
+};
+// Unlike `Trie`, keeps every keymap of a sequence shared between contexts.
+const prefixTree = (keymaps: readonly KeyMap[]): TrieNode<KeyMap[]> => {
+  const root = new TrieNode<KeyMap[]>();
+  for (const keymap of keymaps) {
+    let node = root;
+    for (const press of keymap.sequence) {
+      const key = press.asHash();
+      const child = node.child(key) || new TrieNode();
+      node.addChild(key, child);
+      node = child;
+    }
+    node.setValue([...(node.value || []), keymap]);
+  }
+  return root;
+};
+const startsWith = (
+  sequence: readonly KeyPress[],
+  prefix: readonly KeyPress[],
+): boolean => {
+  return (
+    sequence.length >= prefix.length &&
+    sequenceKey(sequence.slice(0, prefix.length)) === sequenceKey(prefix)
+  );
+};
+// A subtree cannot move into itself, nor to where it already is.
+const canMoveUnder = (
+  from: readonly KeyPress[],
+  under: readonly KeyPress[],
+): boolean => {
+  return (
+    !startsWith(under, from) &&
+    sequenceKey(under) !== sequenceKey(from.slice(0, -1))
+  );
+};
+const flatten = <T>(lists: T[][]): T[] => {
+  return ([] as T[]).concat(...lists);
+};
+const keymapsToText = (keymaps: readonly KeyMap[]): string => {
+  const sequences = keymaps.map((keymap) =>
+    sequenceNotation(
+      keymap.matchBy === 'code'
+        ? keymap.sequence.map((press) => press.onUsLayout())
+        : keymap.sequence,
+    ),
+  );
+  const width = Math.max(0, ...sequences.map((sequence) => sequence.length));
+  const lines = keymaps.map((keymap, i) => {
+    const padding = ' '.repeat(width - sequences[i].length + 2);
+    const actions = keymap.actions
+      .map((action) =>
+        action.delay
+          ? `${action.delay}ms ${actionNotation(action)}`
+          : actionNotation(action),
+      )
+      .join(' ');
+    const options = [
+      contextNotation(keymap.context),
+      keymap.continueOnFailure ? 'onfailure=continue' : '',
+      keymap.passCount ? 'count=pass' : '',
+      keymap.repeatable ? 'repeat=yes' : '',
+      keymap.matchBy ? `match=${keymap.matchBy}` : '',
+    ]
+      .filter((option) => option)
+      .join(' ');
+    return sequences[i] + padding + actions + (options ? '  ' + options : '');
+  });
+  return lines.join('\n') + '\n';
+};
+const keymapsToJson = (keymaps: readonly KeyMap[]): string => {
+  return JSON.stringify({ hotkeys: keymaps }, null, 2);
+};
+const parseKeymaps = (text: string, matchBy: KeyMatching): ImportResult => {
+  const trimmed = text.trim();
+  const result =
+    trimmed.startsWith('{') || trimmed.startsWith('[')
+      ? parseKeymapJson(trimmed)
+      : parseKeymapText(trimmed);
+
+  // Later keymaps win over earlier ones with the same sequence.
+  const bySequence = new Map<string, KeyMap>();
+  for (const keymap of result.keymaps) {
+    const key = bindingKey(keymap, matchBy);
+    if (bySequence.has(key)) {
+      result.issues.push(
+        `${keymap.text()}: duplicate sequence, replaces ${bySequence
+          .get(key)
+          .text()}`,
+      );
+      bySequence.delete(key);
+    }
+    bySequence.set(key, keymap);
+  }
+  return { keymaps: [...bySequence.values()], issues: result.issues };
+};
+const parseKeymapText = (text: string): ImportResult => {
+  const result: ImportResult = { keymaps: [], issues: [] };
+  text.split('\n').forEach((line, i) => {
+    const tokens = keymapLineTokens(line);
+    if (!tokens) {
+      result.issues.push(`Line ${i + 1}: malformed line.`);
+      return;
+    }
+    if (tokens.length === 0) {
+      return;
+    }
+    const context: KeyMapContext = {};
+    const options: KeyMapOptions = {};
+    while (tokens.length >= 1 && /^\w+=/.test(tokens[tokens.length - 1])) {
+      const [name, ...rest] = tokens.pop().split('=');
+      const value = rest.join('=').replace(/^"(.*)"$/, '$1');
+      if (name === 'onfailure' && ['stop', 'continue'].includes(value)) {
+        options.continueOnFailure = value === 'continue';
+      } else if (name === 'count' && ['repeat', 'pass'].includes(value)) {
+        options.passCount = value === 'pass';
+      } else if (name === 'repeat' && ['yes', 'no'].includes(value)) {
+        options.repeatable = value === 'yes';
+      } else if (name === 'match' && ['key', 'code'].includes(value)) {
+        options.matchBy = value as KeyMatching;
+      } else if (!setContextCondition(context, name, value)) {
+        result.issues.push(
+          `Line ${i + 1}: invalid condition ${name}=${value}.`,
+        );
+        return;
+      }
+    }
+
+    const presses = tokens.map(KeyPress.fromNotation);
+    const keyCount = presses.findIndex((press) => !press);
+    const commandTokens = keyCount >= 1 ? tokens.slice(keyCount) : [];
+    if (commandTokens.length === 0) {
+      result.issues.push(`Line ${i + 1}: expected keys and a command ID.`);
+      return;
+    }
+    const malformed = commandTokens.filter((token) => token.startsWith('<'));
+    if (malformed.length >= 1) {
+      result.issues.push(
+        `Line ${i + 1}: malformed keys ${malformed.join(', ')}.`,
+      );
+      return;
+    }
+
+    const actions: KeyAction[] = [];
+    let delay = 0;
+    for (const token of commandTokens) {
+      const delayMatch = /^(\d+)ms$/.exec(token);
+      if (delayMatch) {
+        delay += parseInt(delayMatch[1], 10);
+      } else {
+        const action = parseAction(token);
+        if (!action) {
+          result.issues.push(`Line ${i + 1}: malformed action ${token}.`);
+          return;
+        }
+        actions.push(delay > 0 ? { ...action, delay } : action);
+        delay = 0;
+      }
+    }
+    if (delay > 0) {
+      result.issues.push(`Line ${i + 1}: a delay must precede a command.`);
+      return;
+    }
+    result.keymaps.push(
+      new KeyMap(actions, presses.slice(0, keyCount), context, options),
+    );
+  });
+  return result;
+};
+const parseKeymapJson = (text: string): ImportResult => {
+  const result: ImportResult = { keymaps: [], issues: [] };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    result.issues.push(`Invalid JSON: ${err.message}`);
+    return result;
+  }
+
+  const entries = isObject(parsed) ? parsed.hotkeys : parsed;
+  if (!Array.isArray(entries)) {
+    result.issues.push('Expected a list of keymaps under "hotkeys".');
+    return result;
+  }
+  const keymaps = parseEntries(entries, KeyMap.parse, 'Keymap');
+  return { keymaps: keymaps.values, issues: keymaps.issues };
+};
+// Reads each entry on its own, keeping the valid and repaired ones.
+const parseEntries = <T>(
+  entries: unknown[],
+  parse: (raw: unknown) => Validated<T>,
+  label: string,
+): { values: T[]; issues: string[]; rejected: number } => {
+  const result = { values: [] as T[], issues: [] as string[], rejected: 0 };
+  entries.forEach((entry, i) => {
+    const parsed = parse(entry);
+    const problems = parsed.problems.join(', ');
+    if (parsed.value) {
+      result.values.push(parsed.value);
+      if (problems) {
+        result.issues.push(`${label} ${i + 1}: ${problems}.`);
+      }
+    } else {
+      result.rejected += 1;
+      result.issues.push(`${label} ${i + 1}: skipped, ${problems}.`);
+    }
+  });
+  return result;
+};
+// Quoted tokens are snippets, in JSON string syntax, `[[Note]]` opens a
+// file (`[[Note]]:split-right` in another pane), anything with a scheme
+// is opened as a URI and `@name` enters a layer.
+const parseAction = (token: string): Optional<KeyAction> => {
+  const file = /^\[\[([^\]]+)\]\](?::([\w-]+))?$/.exec(token);
+  if (file) {
+    const [, link, pane] = file;
+    if (pane && !(pane in paneKinds)) {
+      return null;
+    }
+    return pane && pane !== 'current'
+      ? { kind: 'file', link, pane: pane as PaneKind }
+      : { kind: 'file', link };
+  }
+  if (/^[a-z][\w+.-]*:\/\//i.test(token)) {
+    return { kind: 'uri', uri: token };
+  }
+  if (/^@.+$/.test(token)) {
+    return { kind: 'layer', layer: token.slice(1) };
+  }
+  if (!token.startsWith('"')) {
+    return { commandID: token };
+  }
+  try {
+    const text = JSON.parse(token);
+    return typeof text === 'string' ? { kind: 'snippet', text } : null;
+  } catch (err) {
+    return null;
+  }
 };
-const interpretMatch = (bestMatch: Optional<TrieNode<KeyMap>>): MatchKind => {
-  if (!bestMatch) {
-    return MatchKind.NoMatch;
+// Keeps the existing keymaps unless the same sequence is in the incoming ones.
+const mergeKeymaps = (
+  existing: readonly KeyMap[],
+  incoming: readonly KeyMap[],
+  matchBy: KeyMatching,
+): KeyMap[] => {
+  const key = (keymap: KeyMap): string => bindingKey(keymap, matchBy);
+  const replaced = new Set(incoming.map(key));
+  return existing
+    .filter((keymap) => !replaced.has(key(keymap)))
+    .concat(incoming);
+};
+// Markdown note with a table of keymaps for each prefix.
+const cheatSheet = (app: App, keymaps: readonly KeyMap[]): string => {
+  const cell = (text: string): string => text.replace(/\|/g, '\\|');
+  const keys = (presses: readonly KeyPress[]): string =>
+    presses.map((press) => `<kbd>${cell(press.text())}</kbd>`).join(' ');
+
+  const groups = new Map<string, KeyMap[]>();
+  for (const keymap of keymaps) {
+    const key = sequenceKey(keymap.sequence.slice(0, -1));
+    groups.set(key, [...(groups.get(key) || []), keymap]);
+  }
+
+  const lines = [
+    '# Leader hotkeys',
+    '',
+    '_Generated by the Leader Hotkeys plugin, edits will be overwritten._',
+  ];
+  const headings = [...groups.keys()].sort();
+  for (const heading of headings) {
+    const group = groups.get(heading);
+    const prefix = group[0].sequence.slice(0, -1);
+    lines.push(
+      '',
+      `## ${prefix.length >= 1 ? keys(prefix) : 'Single keys'}`,
+      '',
+      '| Keys | Runs | Applies |',
+      '| ---- | ---- | ------- |',
+    );
+    const rows = [...group].sort((left, right) =>
+      sequenceKey(left.sequence).localeCompare(sequenceKey(right.sequence)),
+    );
+    for (const keymap of rows) {
+      lines.push(
+        `| ${keys(keymap.sequence)} | ${cell(keymapName(app, keymap))} | ${cell(
+          contextText(keymap.context) || 'everywhere',
+        )} |`,
+      );
+    }
+  }
+  return lines.join('\n') + '\n';
+};
+const fencedCode = (markdown: string): string => {
+  const lines: string[] = [];
+  let inFence = false;
+  for (const line of markdown.split('\n')) {
+    if (line.trim().startsWith('```')) {
+      inFence = !inFence;
+    } else if (inFence) {
+      lines.push(line);
+    }
   }
-  if (bestMatch.isLeaf()) {
-    return MatchKind.FullMatch;
+  return lines.join('\n');
+};
+const unknownCommandIssues = (app: App, keymaps: KeyMap[]): string[] => {
+  const known = new Set(listCommands(app).map((command) => command.id));
+  const issues: string[] = [];
+  for (const keymap of keymaps) {
+    for (const commandID of staleCommandIDs(keymap, known)) {
+      issues.push(`${keymap.text()}: unknown command ID ${commandID}.`);
+    }
   }
-  return MatchKind.PartialMatch;
+  return issues;
+};
+const staleCommandIDs = (keymap: KeyMap, known: Set<string>): string[] => {
+  return keymap.actions
+    .filter((action) => isCommand(action) && !known.has(action.commandID))
+    .map((action) => action.commandID);
+};
+// Commands sharing the most words with a command ID, best first.
+const similarCommands = (
+  commandID: string,
+  commands: readonly ObsidianCommand[],
+): ObsidianCommand[] => {
+  const words = (text: string): string[] =>
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word);
+  const wanted = words(commandID);
+  return commands
+    .map((command) => {
+      const theirs = new Set([...words(command.id), ...words(command.name)]);
+      const shared = wanted.filter((word) => theirs.has(word)).length;
+      return { command, score: shared / Math.max(theirs.size, 1) };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((left, right) => right.score - left.score)
+    .slice(0, 3)
+    .map(({ command }) => command);
 };
 const defaultHotkeys: KeyMap[] = [
-  new KeyMap('editor:focus-left', [KeyPress.ctrl('b'), KeyPress.just('h')]),
-  new KeyMap('editor:focus-right', [KeyPress.ctrl('b'), KeyPress.just('l')]),
-  new KeyMap('editor:focus-top', [KeyPress.ctrl('b'), KeyPress.just('k')]),
-  new KeyMap('editor:focus-bottom', [KeyPress.ctrl('b'), KeyPress.just('j')]),
-  new KeyMap('command-palette:open', [
+  new KeyMap(
+    [{ commandID: 'editor:focus-left' }],
+    [KeyPress.ctrl('b'), KeyPress.just('h')],
+    undefined,
+    { repeatable: true },
+  ),
+  new KeyMap(
+    [{ commandID: 'editor:focus-right' }],
+    [KeyPress.ctrl('b'), KeyPress.just('l')],
+    undefined,
+    { repeatable: true },
+  ),
+  new KeyMap(
+    [{ commandID: 'editor:focus-top' }],
+    [KeyPress.ctrl('b'), KeyPress.just('k')],
+    undefined,
+    { repeatable: true },
+  ),
+  new KeyMap(
+    [{ commandID: 'editor:focus-bottom' }],
+    [KeyPress.ctrl('b'), KeyPress.just('j')],
+    undefined,
+    { repeatable: true },
+  ),
+  KeyMap.forCommand('command-palette:open', [
     KeyPress.ctrl('q'),
     KeyPress.just('1'),
     KeyPress.just('2'),
     KeyPress.just('2'),
   ]),
-  new KeyMap('command-palette:open', [
+  KeyMap.forCommand('command-palette:open', [
     KeyPress.ctrl(' '),
     KeyPress.just('p'),
     KeyPress.just('a'),
@@ -1059,11 +3666,155 @@ const defaultHotkeys: KeyMap[] = [
     KeyPress.just('e'),
   ]),
 ];
+const migrations: Migration[] = [
+  {
+    // Before 0.2 each hotkey was a single key pressed after the leader,
+    // and the leader itself was an Obsidian hotkey.
+    version: 2,
+    migrate: (data, context) => {
+      const leader = context.legacyLeader || KeyPress.ctrl('b');
+      const legacy: unknown[] = Array.isArray(data.hotkeys) ? data.hotkeys : [];
+      // Malformed entries are left for `KeyMap.parse` to report.
+      data.hotkeys = legacy.map((hotkey) =>
+        !isObject(hotkey)
+          ? hotkey
+          : {
+              commandID: hotkey.commandID,
+              sequence: [
+                leader,
+                new KeyPress(
+                  typeof hotkey.key === 'string' ? hotkey.key : undefined,
+                  !!hotkey.shift,
+                  !!hotkey.alt,
+                  !!hotkey.ctrl,
+                  !!hotkey.meta,
+                ),
+              ],
+            },
+      );
+
+      const leaderRepr = context.legacyLeader
+        ? `the leader ${leader.text()}`
+        : `${leader.text()}, since no leader hotkey was found`;
+      return `Converted ${legacy.length} leader hotkeys to sequences starting with ${leaderRepr}.`;
+    },
+  },
+  {
+    // Keymaps run a list of commands instead of a single one.
+    version: 3,
+    migrate: (data) => {
+      const hotkeys: unknown[] = Array.isArray(data.hotkeys)
+        ? data.hotkeys
+        : [];
+      data.hotkeys = hotkeys.map((hotkey) => {
+        if (!isObject(hotkey)) {
+          return hotkey;
+        }
+        const { commandID, ...rest } = hotkey;
+        return { ...rest, actions: [{ commandID }] };
+      });
+      return `Converted ${hotkeys.length} keymaps to run a list of commands.`;
+    },
+  },
+];
+const currentSettingsVersion = migrations[migrations.length - 1].version;
+const settingsVersion = (data: SavedData): number => {
+  if (typeof data.version === 'number') {
+    return data.version;
+  }
+  // Versions before the schema was versioned are told apart by their shape.
+  const hotkeys: unknown[] = Array.isArray(data.hotkeys) ? data.hotkeys : [];
+  const isLegacy = hotkeys.some(
+    (hotkey) =>
+      isObject(hotkey) && !hotkey.sequence && hotkey.key !== undefined,
+  );
+  return isLegacy ? 1 : 2;
+};
+const migrateSettings = (
+  data: SavedData,
+  context: MigrationContext,
+): MigrationResult => {
+  const fromVersion = settingsVersion(data);
+  if (fromVersion > currentSettingsVersion) {
+    throw new Error(`Unknown settings version ${fromVersion}`);
+  }
+
+  const reports: string[] = [];
+  for (const migration of migrations) {
+    if (migration.version > fromVersion) {
+      reports.push(migration.migrate(data, context));
+    }
+  }
+  data.version = currentSettingsVersion;
+  return { data, fromVersion, reports };
+};
 const defaultSettings: KeyBinding = {
+  version: currentSettingsVersion,
   hotkeys: defaultHotkeys,
+  timeout: 2000,
+  matchBy: 'key',
+  recordMod: false,
+  prefixTimeouts: [],
+  replayUnmatched: false,
+  showSequence: true,
+  layerTimeout: 5000,
+  repeatTimeout: 500,
+  keymapFile: '',
+  cheatSheetFile: 'Leader hotkeys.md',
+  updateCheatSheet: false,
+};
+// Left in place by `expandSnippet`, it marks where the cursor ends up.
+const cursorPlaceholder = '{{cursor}}';
+const expandSnippet = (
+  snippet: string,
+  selection: string,
+  clipboard: string,
+): string => {
+  return snippet.replace(
+    /{{(\w+)(?::([^}]*))?}}/g,
+    (placeholder: string, name: string, format?: string) => {
+      switch (name) {
+        case 'date':
+          return moment().format(format || 'YYYY-MM-DD');
+        case 'time':
+          return moment().format(format || 'HH:mm');
+        case 'selection':
+          return selection;
+        case 'clipboard':
+          return clipboard;
+        default:
+          return placeholder;
+      }
+    },
+  );
+};
+// Milliseconds an outcome stays in the status indicator.
+const indicatorDelay = 1500;
+// Pixel height of each row in the list of keymaps, and how many rows are
+// rendered beyond the visible ones.
+const listRowHeight = 52;
+const listOverscan = 8;
+const treeViewType = 'leader-hotkeys-tree';
+const cancelKey = KeyPress.just('Escape');
+const sequenceKey = (presses: readonly Hashable[]): string => {
+  return presses.map((press) => press.asHash()).join('\n');
+};
+const parseTimeout = (value: string): number => {
+  const timeout = parseInt(value, 10);
+  return Number.isFinite(timeout) && timeout > 0 ? timeout : 0;
+};
+const wait = (milliseconds: number): Promise<void> => {
+  return new Promise((resolve) => window.setTimeout(resolve, milliseconds));
 };
-const writeConsole = (message: string): void => {
-  console.debug(` Leader Hotkeys: ${message}`);
+const kbd = (press: KeyPress): HTMLElement => {
+  const result = document.createElement('kbd');
+  result.addClass('setting-hotkey');
+  result.setText(press.text());
+  result.style.padding = '2px';
+  result.style.margin = '5px';
+  result.style.border = '1px solid rgba(255,255,255,.25)';
+  result.style.borderRadius = '3px';
+  return result;
 };
 const createNotice = (message: string): void => {
   new Notice('Leader Hotkeys: ' + message);
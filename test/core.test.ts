@@ -0,0 +1,413 @@
+import {
+  KeyMap,
+  keymapLineTokens,
+  KeyPress,
+  MatchMachine,
+  MatchState,
+  MatchStateKind,
+  parseSequence,
+  platform,
+  RecordingMachine,
+  RecordingState,
+  sequenceNotation,
+  Trie,
+} from '../src/core';
+import { strict as assert } from 'assert';
+import { afterEach, describe, it } from 'node:test';
+
+const keys = (notation: string): KeyPress[] => parseSequence(notation);
+const keymap = (notation: string, commandID: string): KeyMap =>
+  KeyMap.forCommand(commandID, keys(notation));
+const machineFor = (...keymaps: KeyMap[]): MatchMachine =>
+  new MatchMachine(Trie.from(keymaps));
+const advanceAll = (
+  machine: MatchMachine | RecordingMachine,
+  notation: string,
+): (MatchState | RecordingState)[] =>
+  keys(notation).map((press) => machine.advance(press));
+
+describe('KeyPress', () => {
+  afterEach(() => {
+    platform.isMacOS = false;
+  });
+
+  it('hashes characters the same with or without Shift', () => {
+    assert.equal(KeyPress.shift('g').asHash(), KeyPress.just('G').asHash());
+    assert.notEqual(KeyPress.just('g').asHash(), KeyPress.just('G').asHash());
+  });
+
+  it('keeps Shift in the hash of named keys', () => {
+    assert.notEqual(
+      KeyPress.shift('Enter').asHash(),
+      KeyPress.just('Enter').asHash(),
+    );
+  });
+
+  it('hashes physical keys whatever the layout types', () => {
+    const azerty = new KeyPress('a', false, false, false, false, 'KeyQ');
+    assert.equal(azerty.codeHash(), KeyPress.just('q').codeHash());
+    assert.equal(azerty.onUsLayout().key, 'q');
+  });
+
+  it('resolves Mod to Ctrl, or Cmd on macOS', () => {
+    const press = KeyPress.fromNotation('<Mod-p>');
+    assert.ok(press.hasCtrl() && !press.hasMeta());
+    assert.equal(press.asHash(), KeyPress.ctrl('p').asHash());
+
+    platform.isMacOS = true;
+    assert.ok(press.hasMeta() && !press.hasCtrl());
+    assert.equal(press.asHash(), KeyPress.meta('p').asHash());
+  });
+
+  it('records the platform modifier as Mod', () => {
+    assert.ok(KeyPress.ctrl('p').withMod().mod);
+    assert.equal(KeyPress.meta('p').withMod().mod, undefined);
+  });
+
+  it('reads Obsidian hotkeys without mixing up Ctrl and Alt', () => {
+    const press = KeyPress.fromCustom({ key: 'B', modifiers: ['Ctrl'] });
+    assert.ok(press.ctrl && !press.alt);
+  });
+
+  it('parses and prints the notation', () => {
+    const sequence = keys(
+      'C-b <space> <Return> <Esc> <BS> <lt> <A-S-x> <Mod-p> " # <C-B> <C-S-B>',
+    );
+    assert.deepEqual(
+      sequence.map((press) => press.key),
+      [
+        'b',
+        ' ',
+        'Enter',
+        'Escape',
+        'Backspace',
+        '<',
+        'x',
+        'p',
+        '"',
+        '#',
+        'b',
+        'B',
+      ],
+    );
+    assert.equal(sequence[10].asHash(), keys('C-b')[0].asHash());
+    const notation = sequenceNotation(sequence);
+    assert.equal(
+      notation,
+      '<C-b> <Space> <CR> <Esc> <BS> <lt> <A-S-x> <Mod-p> <quote> <hash> <C-b> <C-S-B>',
+    );
+    assert.equal(sequenceNotation(keys(notation)), notation);
+  });
+
+  it('reads back every printable key from the keymap text format', () => {
+    for (let code = 32; code <= 126; code++) {
+      const press = KeyPress.just(String.fromCharCode(code));
+      for (const sequence of [
+        [press, KeyPress.just('x')],
+        [...keys('C-b'), press],
+      ]) {
+        const tokens = keymapLineTokens(
+          `${sequenceNotation(sequence)}  editor:save-file`,
+        );
+        assert.deepEqual(
+          parseSequence(tokens.slice(0, -1).join(' ')).map((read) =>
+            read.asHash(),
+          ),
+          sequence.map((written) => written.asHash()),
+        );
+      }
+    }
+  });
+
+  it('rejects malformed notation', () => {
+    assert.equal(parseSequence(''), null);
+    assert.equal(parseSequence('C-b hh'), null);
+    assert.equal(parseSequence('<X-b>'), null);
+  });
+
+  it('repairs or rejects persisted presses', () => {
+    const written = KeyPress.parse({ key: 'h', ctrl: 'false', alt: 'true' });
+    assert.ok(!written.value.ctrl && written.value.alt);
+    assert.equal(written.problems.length, 2);
+
+    const dropped = KeyPress.parse({ key: 'h', ctrl: 'yes', meta: 1 });
+    assert.ok(!dropped.value.ctrl && !dropped.value.meta);
+    assert.equal(dropped.problems.length, 2);
+
+    assert.deepEqual(KeyPress.parse({ key: 'h', shift: true }).problems, []);
+    assert.equal(KeyPress.parse({ ctrl: true }).value, null);
+    assert.equal(KeyPress.parse(null).value, null);
+  });
+});
+
+describe('KeyMap', () => {
+  it('reads keymaps from before command chains', () => {
+    const parsed = KeyMap.parse({
+      commandID: 'editor:focus-left',
+      sequence: [{ key: 'b', ctrl: true }, { key: 'h' }],
+    });
+    assert.deepEqual(parsed.value.actions, [
+      { commandID: 'editor:focus-left' },
+    ]);
+    assert.deepEqual(parsed.problems, []);
+  });
+
+  it('rejects keymaps without actions or keys', () => {
+    assert.equal(KeyMap.parse({ sequence: [{ key: 'h' }] }).value, null);
+    assert.equal(KeyMap.parse({ commandID: 'app:reload' }).value, null);
+    assert.equal(
+      KeyMap.parse({
+        commandID: 'app:reload',
+        sequence: [{ key: 'h' }],
+        context: { mode: 'insert' },
+      }).value,
+      null,
+    );
+  });
+
+  it('rejects actions with nothing to run or open', () => {
+    const sequence = [{ key: 'h' }];
+    assert.equal(KeyMap.parse({ commandID: '', sequence }).value, null);
+    assert.equal(KeyMap.parse({ commandID: 3, sequence }).value, null);
+    assert.equal(
+      KeyMap.parse({ actions: [{ kind: 'file', link: '' }], sequence }).value,
+      null,
+    );
+    assert.equal(
+      KeyMap.parse({ actions: [{ kind: 'uri', uri: '' }], sequence }).value,
+      null,
+    );
+    assert.ok(
+      KeyMap.parse({ actions: [{ kind: 'snippet', text: '' }], sequence })
+        .value,
+    );
+  });
+});
+
+describe('Trie', () => {
+  it('refuses two keymaps with the same sequence', () => {
+    assert.throws(() =>
+      Trie.from([keymap('C-b h', 'first'), keymap('C-b h', 'second')]),
+    );
+  });
+});
+
+describe('MatchMachine', () => {
+  const focusLeft = keymap('C-b h', 'editor:focus-left');
+  const goTo = keymap('C-b g', 'go');
+  const goToTop = keymap('C-b g g', 'go-top');
+
+  it('ignores modifier-only presses before a sequence', () => {
+    const machine = machineFor(focusLeft);
+    assert.equal(
+      machine.advance(KeyPress.just('Control')),
+      MatchState.EmptyMatch,
+    );
+    assert.equal(machine.stateKind(), MatchStateKind.Initial);
+  });
+
+  it('retains a sequence across modifier-only presses', () => {
+    const machine = machineFor(focusLeft);
+    assert.equal(machine.advance(KeyPress.ctrl('b')), MatchState.StartedMatch);
+    assert.equal(
+      machine.advance(KeyPress.just('Shift')),
+      MatchState.RetainedMatch,
+    );
+    assert.equal(machine.advance(KeyPress.just('h')), MatchState.SuccessMatch);
+    assert.equal(machine.fullMatch(), focusLeft);
+  });
+
+  it('leaves keys which start no sequence alone', () => {
+    const machine = machineFor(focusLeft);
+    assert.equal(machine.advance(KeyPress.just('h')), MatchState.EmptyMatch);
+    assert.deepEqual(machine.swallowed(), []);
+  });
+
+  it('starts over after a terminal state', () => {
+    const machine = machineFor(focusLeft);
+    advanceAll(machine, 'C-b h');
+    assert.equal(machine.stateKind(), MatchStateKind.Terminal);
+    assert.equal(machine.advance(KeyPress.ctrl('b')), MatchState.StartedMatch);
+    assert.equal(sequenceNotation(machine.sequence()), '<C-b>');
+  });
+
+  it('keeps the keys of an invalid sequence until the next press', () => {
+    const machine = machineFor(focusLeft);
+    assert.deepEqual(advanceAll(machine, 'C-b x'), [
+      MatchState.StartedMatch,
+      MatchState.InvalidMatch,
+    ]);
+    assert.equal(machine.fullMatch(), null);
+    assert.equal(machine.swallowed().length, 2);
+
+    assert.equal(machine.advance(KeyPress.just('x')), MatchState.EmptyMatch);
+    assert.deepEqual(machine.swallowed(), []);
+  });
+
+  it('settles an ambiguous sequence on the next key', () => {
+    const machine = machineFor(focusLeft, goTo, goToTop);
+    assert.deepEqual(advanceAll(machine, 'C-b g'), [
+      MatchState.StartedMatch,
+      MatchState.AmbiguousMatch,
+    ]);
+    assert.equal(machine.advance(KeyPress.just('x')), MatchState.SuccessMatch);
+    assert.equal(machine.fullMatch(), goTo);
+    assert.equal(machine.settledBy().key, 'x');
+  });
+
+  it('lets the key settling an ambiguous sequence start another', () => {
+    const machine = machineFor(goTo, goToTop);
+    advanceAll(machine, 'C-b g');
+    assert.equal(machine.advance(KeyPress.ctrl('b')), MatchState.SuccessMatch);
+    assert.equal(sequenceNotation(machine.swallowed()), '<C-b> g');
+
+    const leader = machine.settledBy();
+    machine.reset();
+    assert.equal(machine.advance(leader), MatchState.StartedMatch);
+    assert.equal(
+      machine.advance(KeyPress.just('g')),
+      MatchState.AmbiguousMatch,
+    );
+  });
+
+  it('settles an ambiguous sequence when resolved', () => {
+    const machine = machineFor(goTo, goToTop);
+    advanceAll(machine, 'C-b g');
+    assert.equal(machine.resolve(), MatchState.SuccessMatch);
+    assert.equal(machine.fullMatch(), goTo);
+  });
+
+  it('continues an ambiguous sequence', () => {
+    const machine = machineFor(goTo, goToTop);
+    advanceAll(machine, 'C-b g g');
+    assert.equal(machine.fullMatch(), goToTop);
+  });
+
+  it('lists the keys which can follow', () => {
+    const machine = machineFor(focusLeft, goTo, goToTop);
+    machine.advance(KeyPress.ctrl('b'));
+    const continuations = machine.continuations();
+    assert.deepEqual(
+      continuations.map((continuation) => continuation.press.key).sort(),
+      ['g', 'h'],
+    );
+    assert.ok(continuations.find((next) => next.press.key === 'g').isPrefix);
+  });
+
+  it('counts digits typed within a sequence', () => {
+    const machine = machineFor(focusLeft);
+    assert.deepEqual(advanceAll(machine, 'C-b 1 2 h'), [
+      MatchState.StartedMatch,
+      MatchState.CountedMatch,
+      MatchState.CountedMatch,
+      MatchState.SuccessMatch,
+    ]);
+    assert.equal(machine.count(), 12);
+    assert.equal(machine.swallowed().length, 4);
+  });
+
+  it('repeats repeatable keymaps without their prefix', () => {
+    const left = new KeyMap([{ commandID: 'left' }], keys('C-b h'), undefined, {
+      repeatable: true,
+    });
+    const right = new KeyMap(
+      [{ commandID: 'right' }],
+      keys('C-b l'),
+      undefined,
+      {
+        repeatable: true,
+      },
+    );
+    const machine = machineFor(left, right, goTo);
+    advanceAll(machine, 'C-b h');
+    assert.ok(machine.canRepeat());
+    assert.equal(machine.advance(KeyPress.just('l')), MatchState.SuccessMatch);
+    assert.equal(machine.fullMatch(), right);
+
+    // Other keys end the repetition.
+    assert.equal(machine.advance(KeyPress.just('g')), MatchState.EmptyMatch);
+  });
+});
+
+describe('RecordingMachine', () => {
+  it('ignores modifier-only presses', () => {
+    const machine = new RecordingMachine();
+    assert.equal(
+      machine.advance(KeyPress.just('Control')),
+      RecordingState.EmptySequence,
+    );
+    assert.deepEqual(machine.presses(), []);
+  });
+
+  it('adds keys to the sequence', () => {
+    const machine = new RecordingMachine();
+    assert.deepEqual(advanceAll(machine, 'C-b h'), [
+      RecordingState.FirstKey,
+      RecordingState.AddedKeys,
+    ]);
+    assert.equal(sequenceNotation(machine.presses()), '<C-b> h');
+  });
+
+  it('continues from a prefix', () => {
+    const machine = new RecordingMachine(keys('C-b'));
+    assert.equal(machine.advance(KeyPress.just('h')), RecordingState.AddedKeys);
+    assert.equal(machine.presses().length, 2);
+  });
+
+  it('adds a literal Enter when confirmed', () => {
+    const machine = new RecordingMachine();
+    assert.deepEqual(advanceAll(machine, 'h <CR>'), [
+      RecordingState.FirstKey,
+      RecordingState.PendingAddition,
+    ]);
+    assert.equal(
+      machine.advance(KeyPress.just('Enter')),
+      RecordingState.AddedKeys,
+    );
+    assert.equal(sequenceNotation(machine.presses()), 'h <CR>');
+  });
+
+  it('discards a literal Enter on Backspace', () => {
+    const machine = new RecordingMachine();
+    advanceAll(machine, 'h <CR>');
+    assert.equal(
+      machine.advance(KeyPress.just('Backspace')),
+      RecordingState.WaitingInput,
+    );
+    assert.equal(sequenceNotation(machine.presses()), 'h');
+  });
+
+  it('deletes the previous key on a confirmed Backspace', () => {
+    const machine = new RecordingMachine();
+    assert.deepEqual(advanceAll(machine, 'h j <BS> <BS>'), [
+      RecordingState.FirstKey,
+      RecordingState.AddedKeys,
+      RecordingState.PendingDeletion,
+      RecordingState.DeletedKey,
+    ]);
+    assert.equal(sequenceNotation(machine.presses()), 'h');
+  });
+
+  it('keeps the pending key when the choice is unknown', () => {
+    const machine = new RecordingMachine();
+    advanceAll(machine, 'h <BS>');
+    assert.equal(
+      machine.advance(KeyPress.just('x')),
+      RecordingState.PendingDeletion,
+    );
+    assert.equal(sequenceNotation(machine.presses()), 'h <BS>');
+  });
+
+  it('finishes on Ctrl+Alt+Enter and can carry on afterwards', () => {
+    const machine = new RecordingMachine();
+    advanceAll(machine, 'h <CR>');
+    assert.equal(
+      machine.advance(KeyPress.ctrlAlt('Enter')),
+      RecordingState.FinishedMapping,
+    );
+    assert.equal(sequenceNotation(machine.presses()), 'h');
+
+    assert.equal(machine.advance(KeyPress.just('j')), RecordingState.AddedKeys);
+    assert.equal(sequenceNotation(machine.presses()), 'h j');
+  });
+});
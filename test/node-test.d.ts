@@ -0,0 +1,9 @@
+// The parts of Node's test runner used by the tests, which the typings of
+// Node used by the plugin predate.
+declare module 'node:test' {
+  type Body = () => void | Promise<void>;
+
+  export const describe: (name: string, body: Body) => void;
+  export const it: (name: string, body: Body) => void;
+  export const afterEach: (body: Body) => void;
+}